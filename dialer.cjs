@@ -1,5 +1,78 @@
 // factory-dialer.cjs - Pre-dialer for generating valid signatures for contract calls
-const { generateSignature, generateMockSignature } = require('./signature-helper.cjs');
+const { Cl, ClarityType, cvToValue } = require("@stacks/transactions");
+const tsx = require("tsx/cjs/api");
+
+// Signing goes through the same TypeScript signature helper and Signer
+// backends as the tests
+const { TRUSTED_SIGNER, generateSignature } = tsx.require(
+	"./tests/helpers/signature-helper.ts",
+	__filename
+);
+
+// Keyring signer used to sign; set DIALER_SIGNER to fuzz with a rotated key
+// added to the helper's keyring
+const SIGNER = process.env.DIALER_SIGNER || TRUSTED_SIGNER;
+
+// Pools where players join for free and the sponsor's leave withdraws the
+// pool; every other pool refunds the entry fee on leave
+const SPONSORED_POOLS = new Set([
+	"sponsored-pool",
+	"sponsored-ft-pool",
+	"sponsored-sbtc-pool",
+]);
+
+/**
+ * Calls a read-only function of the target contract as the current tx-sender
+ * @returns The Clarity value the function returned
+ */
+function readTarget(context, fn, args = []) {
+	const contractAddr =
+		context.session.contracts[context.targetContract].identifier;
+	const txSender = context.session.accounts[context.txSender].address;
+	return context.session.callReadOnlyFn(contractAddr, fn, args, txSender)
+		.result;
+}
+
+/**
+ * Returns the action and amount the target contract verifies for a leave by
+ * the given sender: the entry fee in entry-fee pools, the pool size for a
+ * sponsor withdrawing, and 0 for players of sponsored pools
+ */
+function leaveTerms(context, contractAddr, txSender) {
+	const [, contractName] = contractAddr.split(".");
+	if (!SPONSORED_POOLS.has(contractName)) {
+		return {
+			action: "leave",
+			amount: Number(cvToValue(readTarget(context, "get-entry-fee"))),
+		};
+	}
+
+	const info = readTarget(context, "get-player-info", [
+		Cl.principal(txSender),
+	]);
+	const isSponsor =
+		info.type === ClarityType.OptionalSome &&
+		info.value.data["is-sponsor"].type === ClarityType.BoolTrue;
+	return isSponsor
+		? {
+				action: "sponsor-withdraw",
+				amount: Number(cvToValue(readTarget(context, "get-pool-size"))),
+			}
+		: { action: "leave", amount: 0 };
+}
+
+/**
+ * Reads the sender's current nonce from the target contract. The contracts
+ * only bump it when a signed call succeeds, so failed or reverted calls don't
+ * push later signatures out of step.
+ */
+function currentNonce(context, txSender) {
+	return Number(
+		cvToValue(
+			readTarget(context, "get-player-nonce", [Cl.principal(txSender)])
+		)
+	);
+}
 
 /**
  * Pre-dialer function for the leave function
@@ -18,26 +91,26 @@ async function preLeaveSignature(context) {
 	const contractAddr =
 		context.session.contracts[context.targetContract].identifier;
 
-	// Try to use actual signature generation, fallback to mock if it fails
-	let signature;
-	try {
-		signature = await generateSignature(
-			5_000_000,
-			txSender,
-			contractAddr
-		);
-	} catch (e) {
-		console.log("Using mock signature generation due to:", e.message);
-		signature = generateMockSignature(
-			5_000_000,
-			txSender,
-			contractAddr
-		);
-	}
+	// Sign for the expiry chosen for this call. sponsored-ft-pool takes the
+	// token contract first, so count from the end of the arguments.
+	const offset = clarityValueArguments.length - 2;
+	const expiry = Number(clarityValueArguments[offset].value);
+
+	const message = {
+		...leaveTerms(context, contractAddr, txSender),
+		winner: txSender,
+		contract: contractAddr,
+		nonce: currentNonce(context, txSender),
+		expiry,
+	};
+
+	// Signing errors propagate, so a misconfigured signer stops the run
+	// instead of fuzzing with signatures the contract rejects
+	const signature = await generateSignature(message, SIGNER);
 
 	// Replace the signature argument with our generated one
-	// The signature is the first argument (index 0) of the leave function
-	clarityValueArguments[0] = {
+	// The signature is the last argument of the leave function
+	clarityValueArguments[offset + 1] = {
 		type: 2, // Buffer type in Clarity Value representation
 		value: signature,
 	};
@@ -60,21 +133,28 @@ async function preClaimRewardSignature(context) {
 	const contractAddr =
 		context.session.contracts[context.targetContract].identifier;
 
-	// Get the amount being claimed (first argument)
-	const amount = Number(clarityValueArguments[0].value);
+	// Get the amount being claimed and the expiry, after the token contract
+	// in sponsored-ft-pool
+	const offset = clarityValueArguments.length - 3;
+	const amount = Number(clarityValueArguments[offset].value);
+	const expiry = Number(clarityValueArguments[offset + 1].value);
 
-	// Try to use actual signature generation, fallback to mock if it fails
-	let signature;
-	try {
-		signature = await generateSignature(amount, txSender, contractAddr);
-	} catch (e) {
-		console.log("Using mock signature generation due to:", e.message);
-		signature = generateMockSignature(amount, txSender, contractAddr);
-	}
+	const message = {
+		action: "claim",
+		amount,
+		winner: txSender,
+		contract: contractAddr,
+		nonce: currentNonce(context, txSender),
+		expiry,
+	};
+
+	// Signing errors propagate, so a misconfigured signer stops the run
+	// instead of fuzzing with signatures the contract rejects
+	const signature = await generateSignature(message, SIGNER);
 
 	// Replace the signature argument with our generated one
-	// The signature is the second argument (index 1) of the claim-reward function
-	clarityValueArguments[1] = {
+	// The signature is the last argument of the claim-reward function
+	clarityValueArguments[offset + 2] = {
 		type: 2, // Buffer type in Clarity Value representation
 		value: signature,
 	};
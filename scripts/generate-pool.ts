@@ -0,0 +1,73 @@
+// Renders a pool instance from the template and adds it to Clarinet.toml and
+// a deployment plan, e.g.
+// npm run generate:pool -- --name pool-3 --entry-fee 5000000 --host ST... --game-type lexi-wars
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { parseArgs } from "util";
+import {
+	addPlanEntries,
+	GENERATED_POOLS_DIR,
+	getPlanDeployer,
+	POOL_TEMPLATE_PATH,
+	PoolParams,
+	renderClarinetEntry,
+	renderPlanEntries,
+	renderPoolContract,
+} from "./pool-generator";
+
+const { values } = parseArgs({
+	options: {
+		name: { type: "string" },
+		"entry-fee": { type: "string" },
+		host: { type: "string" },
+		"game-type": { type: "string" },
+		"fee-wallet": { type: "string" },
+		"min-players": { type: "string" },
+		"max-players": { type: "string" },
+		plan: { type: "string", default: "deployments/default.testnet-plan.yaml" },
+	},
+});
+
+if (!values.name || !values["entry-fee"] || !values.host || !values["game-type"]) {
+	console.error(
+		"Usage: generate-pool --name <contract> --entry-fee <microSTX> --host <address> --game-type <type> [--fee-wallet <address>] [--min-players <n>] [--max-players <n>] [--plan <path>]"
+	);
+	process.exit(1);
+}
+
+const params: PoolParams = {
+	name: values.name,
+	entryFee: Number(values["entry-fee"]),
+	host: values.host,
+	gameType: values["game-type"],
+	feeWallet: values["fee-wallet"],
+	minPlayers: values["min-players"] ? Number(values["min-players"]) : undefined,
+	maxPlayers: values["max-players"] ? Number(values["max-players"]) : undefined,
+};
+
+const contractPath = `${GENERATED_POOLS_DIR}/${params.name}.clar`;
+if (existsSync(contractPath)) {
+	console.error(`${contractPath} already exists`);
+	process.exit(1);
+}
+
+const source = renderPoolContract(readFileSync(POOL_TEMPLATE_PATH, "utf8"), params);
+const plan = readFileSync(values.plan!, "utf8");
+
+mkdirSync(GENERATED_POOLS_DIR, { recursive: true });
+writeFileSync(contractPath, source);
+
+const manifest = readFileSync("Clarinet.toml", "utf8");
+writeFileSync(
+	"Clarinet.toml",
+	manifest.replace(
+		"[repl.analysis]",
+		`\n${renderClarinetEntry(params)}\n[repl.analysis]`
+	)
+);
+
+writeFileSync(
+	values.plan!,
+	addPlanEntries(plan, renderPlanEntries(params, getPlanDeployer(plan), source))
+);
+
+console.log(`Generated ${contractPath} and added it to Clarinet.toml and ${values.plan}`);
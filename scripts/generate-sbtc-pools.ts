@@ -0,0 +1,10 @@
+// Renders the sBTC pools from the STX pools they mirror. Run it after
+// changing factory.clar or sponsored-pool.clar, e.g.
+// npm run generate:sbtc-pools
+import { readFileSync, writeFileSync } from "fs";
+import { renderSbtcPoolContract, SBTC_POOLS } from "./pool-generator";
+
+for (const { template, path } of SBTC_POOLS) {
+	writeFileSync(path, renderSbtcPoolContract(readFileSync(template, "utf8"), template));
+	console.log(`Generated ${path} from ${template}`);
+}
@@ -0,0 +1,277 @@
+import { validateStacksAddress } from "@stacks/transactions";
+
+/**
+ * Parameters of a generated pool instance
+ */
+export interface PoolParams {
+	/** Contract name of the instance, e.g. "pool-3" */
+	name: string;
+	/** Entry fee in microSTX */
+	entryFee: number;
+	/** Principal that opens the pool and can kick players */
+	host: string;
+	/** Game played in the pool, recorded in the pool registry */
+	gameType: string;
+	/** Wallet receiving the platform fee, defaults to the template's */
+	feeWallet?: string;
+	/** Players required before the pool can be locked, defaults to the template's */
+	minPlayers?: number;
+	/** Seats in the pool, defaults to the template's */
+	maxPlayers?: number;
+}
+
+/**
+ * The STX entry-fee pool every instance is rendered from
+ */
+export const POOL_TEMPLATE_PATH = "contracts/factory.clar";
+
+/**
+ * Directory generated pool contracts are written to
+ */
+export const GENERATED_POOLS_DIR = "contracts/pools";
+
+// Clarinet estimates publish fees at roughly 10 microSTX per source byte
+const PUBLISH_COST_PER_BYTE = 10;
+const REGISTER_COST = 5000;
+
+const CONTRACT_NAME_PATTERN = /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/;
+const MAX_CONTRACT_NAME_LENGTH = 40;
+const MAX_GAME_TYPE_LENGTH = 32;
+
+/**
+ * Checks pool parameters before anything is rendered
+ * @param params - The pool parameters
+ */
+export const validatePoolParams = (params: PoolParams): void => {
+	if (
+		!CONTRACT_NAME_PATTERN.test(params.name) ||
+		params.name.length > MAX_CONTRACT_NAME_LENGTH
+	) {
+		throw new Error(`Invalid contract name: ${params.name}`);
+	}
+	if (!Number.isSafeInteger(params.entryFee) || params.entryFee <= 0) {
+		throw new Error(`Entry fee must be a positive integer: ${params.entryFee}`);
+	}
+	if (!validateStacksAddress(params.host)) {
+		throw new Error(`Invalid host address: ${params.host}`);
+	}
+	if (params.feeWallet !== undefined && !validateStacksAddress(params.feeWallet)) {
+		throw new Error(`Invalid fee wallet address: ${params.feeWallet}`);
+	}
+	for (const [label, value] of [
+		["Minimum players", params.minPlayers],
+		["Maximum players", params.maxPlayers],
+	] as const) {
+		if (value !== undefined && (!Number.isSafeInteger(value) || value <= 0)) {
+			throw new Error(`${label} must be a positive integer: ${value}`);
+		}
+	}
+	if (
+		params.minPlayers !== undefined &&
+		params.maxPlayers !== undefined &&
+		params.minPlayers > params.maxPlayers
+	) {
+		throw new Error(
+			`Minimum players cannot exceed maximum players: ${params.minPlayers} > ${params.maxPlayers}`
+		);
+	}
+	if (
+		!/^[\x20-\x7e]+$/.test(params.gameType) ||
+		params.gameType.includes('"') ||
+		params.gameType.length > MAX_GAME_TYPE_LENGTH
+	) {
+		throw new Error(`Invalid game type: ${params.gameType}`);
+	}
+};
+
+/**
+ * Replaces the value of a `define-constant` in the template
+ */
+const setConstant = (source: string, name: string, value: string): string => {
+	const pattern = new RegExp(`^\\(define-constant ${name} .+\\)$`, "m");
+	if (!pattern.test(source)) {
+		throw new Error(`Template has no ${name} constant`);
+	}
+	return source.replace(pattern, `(define-constant ${name} ${value})`);
+};
+
+/**
+ * Renders a pool instance from the template
+ * @param template - Source of the template contract
+ * @param params - The pool parameters
+ * @returns The Clarity source of the instance
+ */
+export const renderPoolContract = (
+	template: string,
+	params: PoolParams
+): string => {
+	validatePoolParams(params);
+
+	let source = template.replace(
+		/^;; summary: .*$/m,
+		`;; summary: ${params.gameType} pool generated from ${POOL_TEMPLATE_PATH}, do not edit`
+	);
+	source = setConstant(source, "INITIAL_HOST", `'${params.host}`);
+	source = setConstant(source, "ENTRY_FEE", `u${params.entryFee}`);
+	if (params.feeWallet !== undefined) {
+		source = setConstant(source, "STACKS_WARS_FEE_WALLET", `'${params.feeWallet}`);
+	}
+	if (params.minPlayers !== undefined) {
+		source = setConstant(source, "MIN_PLAYERS", `u${params.minPlayers}`);
+	}
+	if (params.maxPlayers !== undefined) {
+		source = setConstant(source, "MAX_PLAYERS", `u${params.maxPlayers}`);
+	}
+	return source;
+};
+
+/**
+ * The sBTC token contract the sBTC pools move funds with
+ */
+export const SBTC_TOKEN = "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token";
+
+/**
+ * The sBTC pools, each rendered from the STX pool it mirrors
+ */
+export const SBTC_POOLS = [
+	{ template: POOL_TEMPLATE_PATH, path: "contracts/sbtc-pool.clar" },
+	{
+		template: "contracts/sponsored-pool.clar",
+		path: "contracts/sponsored-sbtc-pool.clar",
+	},
+];
+
+// An argument of an STX builtin: a name, or a call without nested calls
+const CLARITY_ARG = "(?:[^()\\s]+|\\([^()]*\\))";
+
+/**
+ * Renders the sBTC version of an STX pool, moving funds with the sBTC token
+ * instead of the STX builtins
+ * @param template - Source of the STX pool
+ * @param templatePath - Path of the STX pool, recorded in the summary
+ * @returns The Clarity source of the sBTC pool
+ */
+export const renderSbtcPoolContract = (
+	template: string,
+	templatePath: string
+): string => {
+	const source = template
+		.replace(/^(;; Stacks Wars - .*)(Pool Contract)$/m, "$1sBTC $2")
+		.replace(
+			/^;; summary: (.*) using STX$/m,
+			`;; summary: $1 using sBTC, generated from ${templatePath}, do not edit\n;; Amounts are in sats`
+		)
+		.replace(/;;.*$/gm, (comment) => comment.replace(/\bSTX\b/g, "sBTC"))
+		.replace(
+			new RegExp(
+				`\\(stx-transfer\\? (${CLARITY_ARG} ${CLARITY_ARG} ${CLARITY_ARG})\\)`,
+				"g"
+			),
+			`(contract-call? '${SBTC_TOKEN} transfer $1 none)`
+		)
+		.replace(
+			new RegExp(`\\(stx-get-balance (${CLARITY_ARG})\\)`, "g"),
+			`(unwrap-panic (contract-call? '${SBTC_TOKEN} get-balance $1))`
+		);
+	if (/\bstx-|\bSTX\b/.test(source)) {
+		throw new Error(`Template moves STX in a way the sBTC pool can't mirror: ${templatePath}`);
+	}
+	return source;
+};
+
+/**
+ * Renders the Clarinet.toml entry of a pool instance
+ * @param params - The pool parameters
+ * @returns The TOML block
+ */
+export const renderClarinetEntry = (params: PoolParams): string => {
+	return [
+		`[contracts.${params.name}]`,
+		`path = '${GENERATED_POOLS_DIR}/${params.name}.clar'`,
+		"clarity_version = 3",
+		"epoch = 3.0",
+		"",
+	].join("\n");
+};
+
+/**
+ * Renders the deployment plan transactions of a pool instance: publishing
+ * the contract, registering it in the pool registry, then adding it to the
+ * moderation list so its moderators can ban players from every pool and to
+ * the referrals contract so it pays referrers
+ * @param params - The pool parameters
+ * @param deployer - The address publishing the contracts
+ * @param source - The rendered contract source, used to estimate its cost
+ * @returns The YAML transaction entries, indented for a batch
+ */
+export const renderPlanEntries = (
+	params: PoolParams,
+	deployer: string,
+	source: string
+): string => {
+	return [
+		"        - contract-publish:",
+		`            contract-name: ${params.name}`,
+		`            expected-sender: ${deployer}`,
+		`            cost: ${Buffer.byteLength(source) * PUBLISH_COST_PER_BYTE}`,
+		`            path: ${GENERATED_POOLS_DIR}/${params.name}.clar`,
+		"            anchor-block-only: true",
+		"            clarity-version: 3",
+		"        - contract-call:",
+		`            contract-id: ${deployer}.pool-registry`,
+		`            expected-sender: ${deployer}`,
+		"            method: register-pool",
+		"            parameters:",
+		`              - "'${deployer}.${params.name}"`,
+		`              - u${params.entryFee}`,
+		`              - "'${params.host}"`,
+		`              - "\\"${params.gameType}\\""`,
+		`            cost: ${REGISTER_COST}`,
+		"            anchor-block-only: true",
+		"        - contract-call:",
+		`            contract-id: ${deployer}.moderation-list`,
+		`            expected-sender: ${deployer}`,
+		"            method: add-pool",
+		"            parameters:",
+		`              - "'${deployer}.${params.name}"`,
+		`            cost: ${REGISTER_COST}`,
+		"            anchor-block-only: true",
+		"        - contract-call:",
+		`            contract-id: ${deployer}.referrals`,
+		`            expected-sender: ${deployer}`,
+		"            method: add-pool",
+		"            parameters:",
+		`              - "'${deployer}.${params.name}"`,
+		`            cost: ${REGISTER_COST}`,
+		"            anchor-block-only: true",
+		"",
+	].join("\n");
+};
+
+/**
+ * Appends transactions to the last batch of a deployment plan
+ * @param plan - The deployment plan YAML
+ * @param entries - The transaction entries from `renderPlanEntries`
+ * @returns The updated plan
+ */
+export const addPlanEntries = (plan: string, entries: string): string => {
+	// Batches end with their epoch, so the last one marks the insertion point
+	const index = plan.lastIndexOf("\n      epoch:");
+	if (index === -1) {
+		throw new Error("Deployment plan has no batch to append to");
+	}
+	return `${plan.slice(0, index + 1)}${entries}${plan.slice(index + 1)}`;
+};
+
+/**
+ * Reads the address publishing contracts in a deployment plan
+ * @param plan - The deployment plan YAML
+ * @returns The first expected sender in the plan
+ */
+export const getPlanDeployer = (plan: string): string => {
+	const match = plan.match(/expected-sender: (\S+)/);
+	if (!match) {
+		throw new Error("Deployment plan has no expected sender");
+	}
+	return match[1];
+};
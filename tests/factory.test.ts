@@ -1,6 +1,23 @@
 import { describe, expect, it, beforeEach } from "vitest";
 import { Cl } from "@stacks/transactions";
-import { generateSignature, generateInvalidSignature } from "./helpers/signature-helper";
+import {
+	generateSignature,
+	generateInvalidSignature,
+	getTrustedPublicKey,
+	keyring,
+	registerSigner,
+	registerTrustedSigner,
+	SIGNATURE_EXPIRY,
+} from "./helpers/signature-helper";
+import { PayoutTree } from "./helpers/payout-tree";
+import {
+	getRefundDeadline,
+	lockPool,
+	passRefundDeadline,
+	PoolStatus,
+	settlePool,
+} from "./helpers/pool-lifecycle";
+import { kickArgs } from "./helpers/moderation";
 
 const accounts = simnet.getAccounts();
 const deployer = simnet.deployer;
@@ -8,9 +25,19 @@ const wallet1 = accounts.get("wallet_1")!;
 const wallet2 = accounts.get("wallet_2")!;
 const wallet3 = accounts.get("wallet_3")!;
 
+const contractId = `${deployer}.factory`;
+
+const balanceOf = (address: string) =>
+	simnet.getAssetsMap().get("STX")?.get(address) ?? 0n;
+
+const claimRefund = (player: string) =>
+	simnet.callPublicFn("factory", "claim-refund", [], player);
+
 describe("Factory Contract Tests", () => {
-	beforeEach(() => {
+	beforeEach(async () => {
 		// Each test starts with a fresh simnet state
+		// Register the local test signer next to the production key
+		await registerTrustedSigner();
 	});
 
 	describe("Initial State", () => {
@@ -34,6 +61,16 @@ describe("Factory Contract Tests", () => {
 			expect(result.result).toBeUint(0);
 		});
 
+		it("should expose the entry fee", () => {
+			const result = simnet.callReadOnlyFn(
+				"factory",
+				"get-entry-fee",
+				[],
+				deployer
+			);
+			expect(result.result).toBeUint(5000000);
+		});
+
 		it("should return false for player joined check initially", () => {
 			const result = simnet.callReadOnlyFn(
 				"factory",
@@ -142,40 +179,41 @@ describe("Factory Contract Tests", () => {
 
 	describe("Claim Reward Function", () => {
 		beforeEach(() => {
-			// Setup: deployer joins to enable others to join
+			// Setup: deployer joins to enable others to join, then the game ends
 			simnet.callPublicFn("factory", "join", [], deployer);
 			simnet.callPublicFn("factory", "join", [], wallet1);
+			settlePool("factory");
 		});
 
 		it("should allow player to claim reward with valid signature", async () => {
 			const rewardAmount = 10000000; // 10 STX
-			const contractId = `${deployer}.factory`;
 
 			// Generate valid signature
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"factory",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
 			expect(result.result).toBeOk(Cl.bool(true));
 
-			// Check events - fee transfer and reward transfer
-			expect(result.events).toContainEqual({
-				event: "stx_transfer_event",
-				data: expect.objectContaining({
-					amount: "200000", // 2% fee
-					sender: `${deployer}.factory`,
-					recipient: "SP39V8Q7KATNA4B0ZKD6QNTMHDNH5VJXRBG7PB8G2", // fee wallet
-				}),
-			});
+			// Only the net reward is transferred, the fee accrues in the pool
+			const accruedFees = simnet.callReadOnlyFn(
+				"factory",
+				"get-accrued-fees",
+				[],
+				deployer
+			);
+			expect(accruedFees.result).toBeUint(200000); // 2% fee
 
 			expect(result.events).toContainEqual({
 				event: "stx_transfer_event",
@@ -189,19 +227,20 @@ describe("Factory Contract Tests", () => {
 
 		it("should prevent claiming reward twice", async () => {
 			const rewardAmount = 10000000;
-			const contractId = `${deployer}.factory`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			// First claim should succeed
 			const firstClaim = simnet.callPublicFn(
 				"factory",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 			expect(firstClaim.result).toBeOk(Cl.bool(true));
@@ -210,7 +249,7 @@ describe("Factory Contract Tests", () => {
 			const secondClaim = simnet.callPublicFn(
 				"factory",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 			expect(secondClaim.result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
@@ -223,7 +262,7 @@ describe("Factory Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"factory",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(invalidSignature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(invalidSignature)],
 				wallet1
 			);
 
@@ -232,19 +271,20 @@ describe("Factory Contract Tests", () => {
 
 		it("should update claimed reward status", async () => {
 			const rewardAmount = 10000000;
-			const contractId = `${deployer}.factory`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			// Claim reward
 			simnet.callPublicFn(
 				"factory",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -268,18 +308,19 @@ describe("Factory Contract Tests", () => {
 
 		it("should allow player to leave with valid signature", async () => {
 			const entryFee = 5000000; // ENTRY_FEE
-			const contractId = `${deployer}.factory`;
 
-			const signature = await generateSignature(
-				entryFee,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "leave",
+				amount: entryFee,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"factory",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -299,19 +340,20 @@ describe("Factory Contract Tests", () => {
 
 		it("should update state after player leaves", async () => {
 			const entryFee = 5000000;
-			const contractId = `${deployer}.factory`;
 
-			const signature = await generateSignature(
-				entryFee,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "leave",
+				amount: entryFee,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			// Player leaves
 			simnet.callPublicFn(
 				"factory",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -336,18 +378,19 @@ describe("Factory Contract Tests", () => {
 
 		it("should prevent non-joined player from leaving", async () => {
 			const entryFee = 5000000;
-			const contractId = `${deployer}.factory`;
 
-			const signature = await generateSignature(
-				entryFee,
-				wallet2, // wallet2 hasn't joined
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "leave",
+				amount: entryFee,
+				winner: wallet2, // wallet2 hasn't joined
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"factory",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet2
 			);
 
@@ -367,7 +410,7 @@ describe("Factory Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"factory",
 				"kick",
-				[Cl.standardPrincipal(wallet1)],
+				kickArgs(wallet1),
 				deployer
 			);
 
@@ -390,7 +433,7 @@ describe("Factory Contract Tests", () => {
 			simnet.callPublicFn(
 				"factory",
 				"kick",
-				[Cl.standardPrincipal(wallet1)],
+				kickArgs(wallet1),
 				deployer
 			);
 
@@ -417,7 +460,7 @@ describe("Factory Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"factory",
 				"kick",
-				[Cl.standardPrincipal(wallet2)],
+				kickArgs(wallet2),
 				wallet1 // wallet1 is not deployer
 			);
 
@@ -428,7 +471,7 @@ describe("Factory Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"factory",
 				"kick",
-				[Cl.standardPrincipal(wallet3)], // wallet3 hasn't joined
+				kickArgs(wallet3), // wallet3 hasn't joined
 				deployer
 			);
 
@@ -439,7 +482,7 @@ describe("Factory Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"factory",
 				"kick",
-				[Cl.standardPrincipal(deployer)],
+				kickArgs(deployer),
 				deployer
 			);
 
@@ -448,19 +491,21 @@ describe("Factory Contract Tests", () => {
 
 		it("should prevent kicking player who claimed reward", async () => {
 			// Player claims reward first
+			settlePool("factory");
 			const rewardAmount = 10000000;
-			const contractId = `${deployer}.factory`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			simnet.callPublicFn(
 				"factory",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -468,11 +513,924 @@ describe("Factory Contract Tests", () => {
 			const kickResult = simnet.callPublicFn(
 				"factory",
 				"kick",
+				kickArgs(wallet1),
+				deployer
+			);
+
+			// Kicks are only allowed while the pool is open
+			expect(kickResult.result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+		});
+	});
+
+	describe("Signed Message Actions", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+			simnet.callPublicFn("factory", "join", [], wallet1);
+		});
+
+		it("should reject a leave signature used to claim a reward", async () => {
+			const entryFee = 5000000;
+
+			const leaveSignature = await generateSignature({
+				action: "leave",
+				amount: entryFee,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			settlePool("factory");
+
+			const claimResult = simnet.callPublicFn(
+				"factory",
+				"claim-reward",
+				[Cl.uint(entryFee), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(leaveSignature)],
+				wallet1
+			);
+			expect(claimResult.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should reject a claim signature used to leave", async () => {
+			const entryFee = 5000000;
+
+			const claimSignature = await generateSignature({
+				action: "claim",
+				amount: entryFee,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const leaveResult = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(claimSignature)],
+				wallet1
+			);
+			expect(leaveResult.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+
+			const hasJoined = simnet.callReadOnlyFn(
+				"factory",
+				"has-player-joined",
+				[Cl.standardPrincipal(wallet1)],
+				deployer
+			);
+			expect(hasJoined.result).toBeBool(true);
+		});
+	});
+
+	describe("Signature Replay Protection", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+			simnet.callPublicFn("factory", "join", [], wallet1);
+		});
+
+		it("should start every player at nonce zero", () => {
+			const nonce = simnet.callReadOnlyFn(
+				"factory",
+				"get-player-nonce",
+				[Cl.standardPrincipal(wallet1)],
+				deployer
+			);
+			expect(nonce.result).toBeUint(0);
+		});
+
+		it("should reject replaying a leave signature after rejoining", async () => {
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 5000000, // ENTRY_FEE
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const firstLeave = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(firstLeave.result).toBeOk(Cl.bool(true));
+
+			const nonce = simnet.callReadOnlyFn(
+				"factory",
+				"get-player-nonce",
 				[Cl.standardPrincipal(wallet1)],
 				deployer
 			);
+			expect(nonce.result).toBeUint(1);
+
+			// Rejoin and try to leave again with the same signature
+			simnet.callPublicFn("factory", "join", [], wallet1);
+			const replay = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(replay.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+
+			// A fresh signature for the next nonce is accepted
+			const freshSignature = await generateSignature({
+				action: "leave",
+				amount: 5000000,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 1,
+			});
+			const secondLeave = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(freshSignature)],
+				wallet1
+			);
+			expect(secondLeave.result).toBeOk(Cl.bool(true));
+		});
+
+		it("should reject an expired leave signature", async () => {
+			const expiry = simnet.blockHeight + 2;
+
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 5000000,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+				expiry,
+			});
+
+			simnet.mineEmptyBlocks(5);
+
+			const result = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(expiry), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(17)); // ERR_SIGNATURE_EXPIRED
+		});
+
+		it("should reject an expired claim signature", async () => {
+			const rewardAmount = 1000000;
+			const expiry = simnet.blockHeight + 2;
+
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+				expiry,
+			});
+
+			simnet.mineEmptyBlocks(5);
+			settlePool("factory");
+
+			const result = simnet.callPublicFn(
+				"factory",
+				"claim-reward",
+				[Cl.uint(rewardAmount), Cl.uint(expiry), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(17)); // ERR_SIGNATURE_EXPIRED
+		});
+
+		it("should reject a signature whose expiry was altered", async () => {
+			const expiry = simnet.blockHeight + 2;
+
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 5000000,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+				expiry,
+			});
+
+			const result = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+	});
+
+	describe("Signer Rotation", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+			simnet.callPublicFn("factory", "join", [], wallet1);
+		});
+
+		const leaveMessage = {
+			action: "leave" as const,
+			amount: 5000000, // ENTRY_FEE
+			winner: wallet1,
+			contract: `${deployer}.factory`,
+			nonce: 0,
+		};
+
+		it("should reject signatures from an unregistered key", async () => {
+			keyring.generate("unregistered");
+			const signature = await generateSignature(leaveMessage, "unregistered");
+
+			const result = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should accept signatures from a newly registered key", async () => {
+			registerSigner(keyring.generate("rotated"));
+			const signature = await generateSignature(leaveMessage, "rotated");
+
+			const result = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeOk(Cl.bool(true));
+		});
+
+		it("should reject signatures from a retired key", async () => {
+			const publicKey = await getTrustedPublicKey();
+			simnet.callPublicFn(
+				"signer-registry",
+				"retire-signer",
+				[Cl.bufferFromHex(publicKey), Cl.uint(simnet.blockHeight)],
+				deployer
+			);
+
+			const signature = await generateSignature(leaveMessage);
+			const result = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+	});
+
+	describe("Merkle Payouts", () => {
+		let tree: PayoutTree;
+
+		beforeEach(() => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+			simnet.callPublicFn("factory", "join", [], wallet1);
+			simnet.callPublicFn("factory", "join", [], wallet2);
+			simnet.callPublicFn("factory", "join", [], wallet3);
+			lockPool("factory");
+
+			tree = new PayoutTree([
+				{ winner: wallet1, amount: 8000000 },
+				{ winner: wallet2, amount: 6000000 },
+				{ winner: wallet3, amount: 4000000 },
+			]);
+		});
+
+		const submitRoot = async (signer?: string) => {
+			const signature = await tree.sign(contractId, SIGNATURE_EXPIRY, signer);
+			return simnet.callPublicFn(
+				"factory",
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(signature),
+				],
+				wallet1
+			);
+		};
+
+		const claimWithProof = (winner: string, amount: number, proof: string[]) =>
+			simnet.callPublicFn(
+				"factory",
+				"claim-with-proof",
+				[Cl.uint(amount), Cl.list(proof.map((node) => Cl.bufferFromHex(node)))],
+				winner
+			);
+
+		it("should accept a payout root signed by the trusted signer", async () => {
+			const result = await submitRoot();
+			expect(result.result).toBeOk(Cl.bool(true));
+
+			const root = simnet.callReadOnlyFn("factory", "get-payout-root", [], deployer);
+			expect(root.result).toBeSome(Cl.bufferFromHex(tree.root));
+		});
+
+		it("should reject a payout root signed by an unregistered key", async () => {
+			keyring.generate("unregistered");
+
+			const result = await submitRoot("unregistered");
+			expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should only accept one payout root", async () => {
+			await submitRoot();
+
+			const result = await submitRoot();
+			expect(result.result).toBeErr(Cl.uint(18)); // ERR_PAYOUT_ROOT_EXISTS
+		});
+
+		it("should reject proof claims before a root is submitted", () => {
+			simnet.callPublicFn("factory", "settle-pool", [], deployer);
+
+			const result = claimWithProof(wallet1, 8000000, tree.getProof(wallet1));
+			expect(result.result).toBeErr(Cl.uint(19)); // ERR_NO_PAYOUT_ROOT
+		});
+
+		it("should pay every winner with a valid proof", async () => {
+			await submitRoot();
+
+			for (const { winner, amount } of tree.payouts) {
+				const result = claimWithProof(winner, amount, tree.getProof(winner));
+				expect(result.result).toBeOk(Cl.bool(true));
+				expect(result.events).toContainEqual({
+					event: "stx_transfer_event",
+					data: expect.objectContaining({
+						amount: String(amount * 0.98), // Net amount after 2% fee
+						sender: contractId,
+						recipient: winner,
+					}),
+				});
+			}
+		});
+
+		it("should reject forged proofs", async () => {
+			await submitRoot();
+
+			// Claiming more than the committed amount
+			const inflated = claimWithProof(wallet3, 8000000, tree.getProof(wallet3));
+			expect(inflated.result).toBeErr(Cl.uint(20)); // ERR_INVALID_PROOF
+
+			// Reusing another winner's proof
+			const stolen = claimWithProof(wallet3, 8000000, tree.getProof(wallet1));
+			expect(stolen.result).toBeErr(Cl.uint(20)); // ERR_INVALID_PROOF
+
+			// A player who is not in the tree
+			const outsider = claimWithProof(deployer, 4000000, tree.getProof(wallet3));
+			expect(outsider.result).toBeErr(Cl.uint(20)); // ERR_INVALID_PROOF
+		});
+
+		it("should prevent double claims", async () => {
+			await submitRoot();
+			claimWithProof(wallet1, 8000000, tree.getProof(wallet1));
+
+			const again = claimWithProof(wallet1, 8000000, tree.getProof(wallet1));
+			expect(again.result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
+
+			// The signed claim path is closed too
+			const signature = await generateSignature({
+				action: "claim",
+				amount: 8000000,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+			const signed = simnet.callPublicFn(
+				"factory",
+				"claim-reward",
+				[Cl.uint(8000000), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(signed.result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
+		});
+	});
+
+	describe("Player Limits", () => {
+		// Eight seats: the deployer and wallets 1 to 7, leaving wallet 8 out
+		const seated = [
+			deployer,
+			...[1, 2, 3, 4, 5, 6, 7].map((i) => accounts.get(`wallet_${i}`)!),
+		];
+		const latecomer = accounts.get("wallet_8")!;
+
+		it("should expose the limits", () => {
+			const min = simnet.callReadOnlyFn("factory", "get-min-players", [], deployer);
+			expect(min.result).toBeUint(2);
+
+			const max = simnet.callReadOnlyFn("factory", "get-max-players", [], deployer);
+			expect(max.result).toBeUint(8);
+		});
+
+		it("should refuse joins once every seat is taken", () => {
+			// Deployer opens the pool, then players take the remaining seats
+			for (const player of seated) {
+				const join = simnet.callPublicFn("factory", "join", [], player);
+				expect(join.result).toBeOk(Cl.bool(true));
+			}
+
+			const result = simnet.callPublicFn("factory", "join", [], latecomer);
+			expect(result.result).toBeErr(Cl.uint(22)); // ERR_POOL_FULL
+
+			const totalPlayers = simnet.callReadOnlyFn(
+				"factory",
+				"get-total-players",
+				[],
+				deployer
+			);
+			expect(totalPlayers.result).toBeUint(8);
+		});
+
+		it("should free a seat when a player leaves", async () => {
+			for (const player of seated) {
+				simnet.callPublicFn("factory", "join", [], player);
+			}
+
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 5000000, // ENTRY_FEE
+				winner: wallet1,
+				contract: `${deployer}.factory`,
+				nonce: 0,
+			});
+			simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+
+			const result = simnet.callPublicFn("factory", "join", [], latecomer);
+			expect(result.result).toBeOk(Cl.bool(true));
+		});
+
+		it("should refuse to lock a pool below the minimum", () => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+
+			const result = lockPool("factory");
+			expect(result.result).toBeErr(Cl.uint(23)); // ERR_NOT_ENOUGH_PLAYERS
+
+			const status = simnet.callReadOnlyFn(
+				"factory",
+				"get-pool-status",
+				[],
+				deployer
+			);
+			expect(status.result).toBeUint(PoolStatus.Open);
+
+			simnet.callPublicFn("factory", "join", [], wallet1);
+			expect(lockPool("factory").result).toBeOk(Cl.bool(true));
+		});
+	});
+
+	describe("Pool Lifecycle", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+			simnet.callPublicFn("factory", "join", [], wallet1);
+		});
+
+		const getStatus = () =>
+			simnet.callReadOnlyFn("factory", "get-pool-status", [], deployer).result;
+
+		// Drives the pool from open to the given state
+		const moveTo = (status: number) => {
+			if (status === PoolStatus.Locked) lockPool("factory");
+			if (status === PoolStatus.Settled) settlePool("factory");
+			if (status === PoolStatus.Cancelled) {
+				simnet.callPublicFn("factory", "cancel-pool", [], deployer);
+			}
+		};
+
+		it("should start open", () => {
+			expect(getStatus()).toBeUint(PoolStatus.Open);
+		});
+
+		it.each([
+			[PoolStatus.Open, "lock-pool", PoolStatus.Locked],
+			[PoolStatus.Open, "cancel-pool", PoolStatus.Cancelled],
+			[PoolStatus.Locked, "settle-pool", PoolStatus.Settled],
+			[PoolStatus.Locked, "cancel-pool", PoolStatus.Cancelled],
+		])("should allow moving from %i with %s", (from, fn, to) => {
+			moveTo(from);
+
+			const result = simnet.callPublicFn("factory", fn, [], deployer);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(getStatus()).toBeUint(to);
+		});
+
+		it.each([
+			[PoolStatus.Open, "settle-pool"],
+			[PoolStatus.Locked, "lock-pool"],
+			[PoolStatus.Settled, "lock-pool"],
+			[PoolStatus.Settled, "settle-pool"],
+			[PoolStatus.Settled, "cancel-pool"],
+			[PoolStatus.Cancelled, "lock-pool"],
+			[PoolStatus.Cancelled, "settle-pool"],
+			[PoolStatus.Cancelled, "cancel-pool"],
+		])("should refuse moving from %i with %s", (from, fn) => {
+			moveTo(from);
+
+			const result = simnet.callPublicFn("factory", fn, [], deployer);
+			expect(result.result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+			expect(getStatus()).toBeUint(from);
+		});
+
+		it.each(["lock-pool", "settle-pool", "cancel-pool"])(
+			"should only let the host call %s",
+			(fn) => {
+				const result = simnet.callPublicFn("factory", fn, [], wallet1);
+				expect(result.result).toBeErr(Cl.uint(16)); // ERR_UNAUTHORIZED
+			}
+		);
+
+		it.each([PoolStatus.Locked, PoolStatus.Settled, PoolStatus.Cancelled])(
+			"should refuse joins, departures and kicks in state %i",
+			async (status) => {
+				const signature = await generateSignature({
+					action: "leave",
+					amount: 5000000, // ENTRY_FEE
+					winner: wallet1,
+					contract: contractId,
+					nonce: 0,
+				});
+				moveTo(status);
+
+				const join = simnet.callPublicFn("factory", "join", [], wallet2);
+				expect(join.result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+
+				const leave = simnet.callPublicFn(
+					"factory",
+					"leave",
+					[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+					wallet1
+				);
+				expect(leave.result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+
+				const kick = simnet.callPublicFn(
+					"factory",
+					"kick",
+					kickArgs(wallet1),
+					deployer
+				);
+				expect(kick.result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it.each([PoolStatus.Open, PoolStatus.Locked, PoolStatus.Cancelled])(
+			"should refuse claims in state %i",
+			async (status) => {
+				const signature = await generateSignature({
+					action: "claim",
+					amount: 1000000,
+					winner: wallet1,
+					contract: contractId,
+					nonce: 0,
+				});
+				moveTo(status);
+
+				const result = simnet.callPublicFn(
+					"factory",
+					"claim-reward",
+					[Cl.uint(1000000), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+					wallet1
+				);
+				expect(result.result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it.each([PoolStatus.Open, PoolStatus.Cancelled])(
+			"should refuse a payout root in state %i",
+			async (status) => {
+				const tree = new PayoutTree([{ winner: wallet1, amount: 1000000 }]);
+				const signature = await tree.sign(contractId, SIGNATURE_EXPIRY);
+				moveTo(status);
+
+				const result = simnet.callPublicFn(
+					"factory",
+					"submit-payout-root",
+					[
+						Cl.bufferFromHex(tree.root),
+						Cl.uint(SIGNATURE_EXPIRY),
+						Cl.bufferFromHex(signature),
+					],
+					deployer
+				);
+				expect(result.result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it("should settle a locked pool when the payout root is posted", async () => {
+			const tree = new PayoutTree([{ winner: wallet1, amount: 1000000 }]);
+			const signature = await tree.sign(contractId, SIGNATURE_EXPIRY);
+			moveTo(PoolStatus.Locked);
+
+			const result = simnet.callPublicFn(
+				"factory",
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(signature),
+				],
+				deployer
+			);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(getStatus()).toBeUint(PoolStatus.Settled);
+		});
+	});
+
+	describe("Cancel Refunds", () => {
+		const seated = [
+			deployer,
+			...[1, 2, 3, 4, 5, 6, 7].map((i) => accounts.get(`wallet_${i}`)!),
+		];
+
+		const joinAll = () => {
+			for (const player of seated) {
+				simnet.callPublicFn("factory", "join", [], player);
+			}
+		};
+
+		it.each([PoolStatus.Open, PoolStatus.Locked])(
+			"should refund every player of a pool cancelled in state %i",
+			(status) => {
+				const before = seated.map(balanceOf);
+				joinAll();
+				if (status === PoolStatus.Locked) lockPool("factory");
+
+				const cancel = simnet.callPublicFn("factory", "cancel-pool", [], deployer);
+				expect(cancel.result).toBeOk(Cl.bool(true));
+
+				for (const player of seated) {
+					const refund = claimRefund(player);
+					expect(refund.result).toBeOk(Cl.bool(true));
+					expect(refund.events).toContainEqual({
+						event: "stx_transfer_event",
+						data: expect.objectContaining({
+							amount: "5000000", // ENTRY_FEE
+							sender: contractId,
+							recipient: player,
+						}),
+					});
+				}
+
+				// Every entry fee went back to the player who paid it
+				expect(seated.map(balanceOf)).toEqual(before);
+				expect(balanceOf(contractId)).toBe(0n);
+
+				const totalPlayers = simnet.callReadOnlyFn(
+					"factory",
+					"get-total-players",
+					[],
+					deployer
+				);
+				expect(totalPlayers.result).toBeUint(0);
+			}
+		);
+
+		it("should refund each player only once", () => {
+			joinAll();
+			simnet.callPublicFn("factory", "cancel-pool", [], deployer);
+
+			expect(claimRefund(wallet1).result).toBeOk(Cl.bool(true));
+			expect(claimRefund(wallet1).result).toBeErr(Cl.uint(14)); // ERR_NOT_JOINED
+		});
+
+		it.each([PoolStatus.Open, PoolStatus.Locked, PoolStatus.Settled])(
+			"should refuse refunds in state %i",
+			(status) => {
+				joinAll();
+				if (status === PoolStatus.Locked) lockPool("factory");
+				if (status === PoolStatus.Settled) settlePool("factory");
+
+				expect(claimRefund(deployer).result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+				expect(claimRefund(wallet1).result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it("should refuse refunds to players who never joined", () => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+			simnet.callPublicFn("factory", "cancel-pool", [], deployer);
+
+			expect(claimRefund(wallet1).result).toBeErr(Cl.uint(14)); // ERR_NOT_JOINED
+		});
+	});
+
+	describe("Refund Deadline", () => {
+		const joinPlayers = () => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+			simnet.callPublicFn("factory", "join", [], wallet1);
+			simnet.callPublicFn("factory", "join", [], wallet2);
+		};
+
+		it("should refuse refunds up to the deadline", () => {
+			joinPlayers();
+			lockPool("factory");
+
+			// The next transaction runs at the deadline block itself
+			simnet.mineEmptyBlocks(getRefundDeadline("factory") - simnet.blockHeight - 1);
+
+			expect(claimRefund(wallet1).result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+		});
+
+		it.each([PoolStatus.Open, PoolStatus.Locked])(
+			"should refund players of a pool left in state %i past the deadline",
+			(status) => {
+				const players = [deployer, wallet1, wallet2];
+				const before = players.map(balanceOf);
+				joinPlayers();
+				if (status === PoolStatus.Locked) lockPool("factory");
+				passRefundDeadline("factory");
+
+				// No signature is needed to get the entry fee back
+				for (const player of players) {
+					expect(claimRefund(player).result).toBeOk(Cl.bool(true));
+				}
+
+				expect(players.map(balanceOf)).toEqual(before);
+				expect(balanceOf(contractId)).toBe(0n);
+			}
+		);
+
+		it("should refuse joins past the deadline", () => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+			passRefundDeadline("factory");
+
+			const result = simnet.callPublicFn("factory", "join", [], wallet1);
+			expect(result.result).toBeErr(Cl.uint(24)); // ERR_POOL_EXPIRED
+		});
+
+		it("should refuse to settle past the deadline", async () => {
+			joinPlayers();
+			lockPool("factory");
+			const tree = new PayoutTree([{ winner: wallet1, amount: 1000000 }]);
+			// The signer is back, but too late
+			const expiry = getRefundDeadline("factory") + 10;
+			const signature = await tree.sign(contractId, expiry);
+			passRefundDeadline("factory");
+
+			const settle = simnet.callPublicFn("factory", "settle-pool", [], deployer);
+			expect(settle.result).toBeErr(Cl.uint(24)); // ERR_POOL_EXPIRED
+
+			const submit = simnet.callPublicFn(
+				"factory",
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(expiry),
+					Cl.bufferFromHex(signature),
+				],
+				deployer
+			);
+			expect(submit.result).toBeErr(Cl.uint(24)); // ERR_POOL_EXPIRED
+		});
+
+		it("should keep refunds closed for a settled pool", () => {
+			joinPlayers();
+			settlePool("factory");
+			passRefundDeadline("factory");
+
+			expect(claimRefund(wallet1).result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+		});
+	});
+
+	describe("Fee Schedule", () => {
+		const FEE_WALLET = "SP39V8Q7KATNA4B0ZKD6QNTMHDNH5VJXRBG7PB8G2";
+
+		beforeEach(() => {
+			simnet.callPublicFn("factory", "join", [], deployer);
+			simnet.callPublicFn("factory", "join", [], wallet1);
+			simnet.callPublicFn("factory", "join", [], wallet2);
+		});
+
+		const claim = async (winner: string, amount: number | bigint) => {
+			const signature = await generateSignature({
+				action: "claim",
+				amount: Number(amount),
+				winner,
+				contract: contractId,
+				nonce: 0,
+			});
+			return simnet.callPublicFn(
+				"factory",
+				"claim-reward",
+				[Cl.uint(amount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				winner
+			);
+		};
+
+		const getClaimFee = (amount: bigint) =>
+			simnet.callReadOnlyFn("factory", "get-claim-fee", [Cl.uint(amount)], deployer)
+				.result;
+
+		const getAccruedFees = () =>
+			simnet.callReadOnlyFn("factory", "get-accrued-fees", [], deployer).result;
+
+		it("should default to 200 basis points paid to the platform wallet", () => {
+			const bps = simnet.callReadOnlyFn("factory", "get-fee-bps", [], deployer);
+			expect(bps.result).toBeUint(200);
+
+			const wallet = simnet.callReadOnlyFn("factory", "get-fee-wallet", [], deployer);
+			expect(wallet.result).toBePrincipal(FEE_WALLET);
+		});
+
+		it.each([
+			[1n, 1n],
+			[49n, 1n],
+			[50n, 1n],
+			[51n, 2n],
+			[10000n, 200n],
+			[10001n, 201n],
+			[12345n, 247n],
+			[5000000n, 100000n],
+			// The largest uint: rounding up without overflowing
+			[2n ** 128n - 1n, ((2n ** 128n - 1n) * 200n + 9999n) / 10000n],
+		])("should charge a fee rounded up on %s", (amount, fee) => {
+			expect(getClaimFee(amount)).toBeUint(fee);
+		});
+
+		it("should charge nothing at 0 basis points", () => {
+			simnet.callPublicFn("factory", "set-fee-bps", [Cl.uint(0)], deployer);
+
+			expect(getClaimFee(1n)).toBeUint(0);
+			expect(getClaimFee(2n ** 128n - 1n)).toBeUint(0);
+		});
+
+		it("should let the host change the fee up to the cap", () => {
+			const set = simnet.callPublicFn("factory", "set-fee-bps", [Cl.uint(1000)], deployer);
+			expect(set.result).toBeOk(Cl.bool(true));
+			expect(getClaimFee(10000n)).toBeUint(1000);
+
+			const tooHigh = simnet.callPublicFn("factory", "set-fee-bps", [Cl.uint(1001)], deployer);
+			expect(tooHigh.result).toBeErr(Cl.uint(25)); // ERR_FEE_TOO_HIGH
+
+			const unauthorized = simnet.callPublicFn("factory", "set-fee-bps", [Cl.uint(0)], wallet1);
+			expect(unauthorized.result).toBeErr(Cl.uint(16)); // ERR_UNAUTHORIZED
+		});
+
+		it("should freeze the fee once the pool is locked", () => {
+			lockPool("factory");
+
+			const result = simnet.callPublicFn("factory", "set-fee-bps", [Cl.uint(0)], deployer);
+			expect(result.result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+		});
+
+		it("should pay nothing on a reward no larger than its fee", async () => {
+			settlePool("factory");
+
+			const result = await claim(wallet1, 1);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events.filter((e) => e.event !== "print_event")).toHaveLength(0);
+			expect(getAccruedFees()).toBeUint(1);
+		});
+
+		it("should sweep every accrued fee in one transfer", async () => {
+			settlePool("factory");
+			await claim(wallet1, 10000000);
+			await claim(wallet2, 12345);
+			const accrued = 200247;
+			expect(getAccruedFees()).toBeUint(accrued);
+
+			// Anyone can sweep, the fees only go to the fee wallet
+			const sweep = simnet.callPublicFn("factory", "sweep-fees", [], wallet3);
+			expect(sweep.result).toBeOk(Cl.uint(accrued));
+			expect(sweep.events.filter((e) => e.event !== "print_event")).toHaveLength(1);
+			expect(sweep.events[0]).toMatchObject({
+				event: "stx_transfer_event",
+				data: {
+					amount: String(accrued),
+					sender: contractId,
+					recipient: FEE_WALLET,
+				},
+			});
+			expect(getAccruedFees()).toBeUint(0);
+
+			const empty = simnet.callPublicFn("factory", "sweep-fees", [], wallet3);
+			expect(empty.result).toBeOk(Cl.uint(0));
+			expect(empty.events).toHaveLength(0);
+		});
+
+		it("should sweep to the wallet set by the host", async () => {
+			const unauthorized = simnet.callPublicFn(
+				"factory",
+				"set-fee-wallet",
+				[Cl.standardPrincipal(wallet3)],
+				wallet1
+			);
+			expect(unauthorized.result).toBeErr(Cl.uint(16)); // ERR_UNAUTHORIZED
+
+			simnet.callPublicFn("factory", "set-fee-wallet", [Cl.standardPrincipal(wallet3)], deployer);
+			settlePool("factory");
+			await claim(wallet1, 10000000);
+
+			const sweep = simnet.callPublicFn("factory", "sweep-fees", [], wallet3);
+			expect(sweep.events[0].data.recipient).toBe(wallet3);
+		});
+
+		it("should not pay rewards out of accrued fees", async () => {
+			settlePool("factory");
+			await claim(wallet1, 10000000);
 
-			expect(kickResult.result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
+			// 5000000 is left for rewards, the rest of the balance is the fee
+			const result = await claim(wallet2, 5000001);
+			expect(result.result).toBeErr(Cl.uint(6)); // ERR_INSUFFICIENT_FUNDS
 		});
 	});
 
@@ -520,38 +1478,55 @@ describe("Factory Contract Tests", () => {
 			);
 			expect(poolBalance.result).toBeUint(15000000);
 
-			// 3. Winner claims reward
-			const rewardAmount = 8000000; // 8 STX reward (leaving 7 STX for refunds)
-			const contractId = `${deployer}.factory`;
+			// 3. A player leaves before the game starts
+			const leaveSignature = await generateSignature({
+				action: "leave",
+				amount: 5000000, // ENTRY_FEE
+				winner: wallet2,
+				contract: contractId,
+				nonce: 0,
+			});
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
+			const leaveResult = simnet.callPublicFn(
+				"factory",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(leaveSignature)],
+				wallet2
 			);
+			expect(leaveResult.result).toBeOk(Cl.bool(true));
 
-			const claimResult = simnet.callPublicFn(
+			// 4. Host locks the pool for the game, then settles it
+			expect(lockPool("factory").result).toBeOk(Cl.bool(true));
+			expect(
+				simnet.callPublicFn("factory", "settle-pool", [], deployer).result
+			).toBeOk(Cl.bool(true));
+
+			const status = simnet.callReadOnlyFn(
 				"factory",
-				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
-				wallet1
+				"get-pool-status",
+				[],
+				deployer
 			);
-			expect(claimResult.result).toBeOk(Cl.bool(true));
+			expect(status.result).toBeUint(PoolStatus.Settled);
 
-			// 4. Other player leaves
-			const leaveSignature = await generateSignature(
-				5000000, // ENTRY_FEE
-				wallet2,
-				contractId
-			);
+			// 5. Winner claims reward
+			const rewardAmount = 8000000; // 8 STX reward out of the 10 STX left
 
-			const leaveResult = simnet.callPublicFn(
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const claimResult = simnet.callPublicFn(
 				"factory",
-				"leave",
-				[Cl.bufferFromHex(leaveSignature)],
-				wallet2
+				"claim-reward",
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
 			);
-			expect(leaveResult.result).toBeOk(Cl.bool(true));
+			expect(claimResult.result).toBeOk(Cl.bool(true));
 
 			// Final state check
 			const finalPlayers = simnet.callReadOnlyFn(
@@ -0,0 +1,34 @@
+// external-signer.cjs - Minimal external signer process used by the signer tests
+// Reads one JSON request from stdin and writes one JSON response to stdout,
+// signing with the key in EXTERNAL_SIGNER_PRIVATE_KEY
+const {
+	createStacksPrivateKey,
+	getPublicKey,
+	publicKeyToString,
+	signMessageHashRsv,
+} = require("@stacks/transactions");
+
+let input = "";
+process.stdin.on("data", (chunk) => (input += chunk));
+process.stdin.on("end", () => {
+	const privateKey = createStacksPrivateKey(
+		process.env.EXTERNAL_SIGNER_PRIVATE_KEY
+	);
+	const request = JSON.parse(input);
+
+	let response;
+	if (request.method === "get-public-key") {
+		response = { publicKey: publicKeyToString(getPublicKey(privateKey)) };
+	} else if (request.method === "sign") {
+		response = {
+			signature: signMessageHashRsv({
+				messageHash: request.messageHash,
+				privateKey,
+			}).data,
+		};
+	} else {
+		response = { error: `unknown method ${request.method}` };
+	}
+
+	process.stdout.write(`${JSON.stringify(response)}\n`);
+});
@@ -0,0 +1,280 @@
+import { createHash } from "crypto";
+import {
+	Cl,
+	ClarityType,
+	ClarityValue,
+	cvToValue,
+	getAddressFromPrivateKey,
+	ListCV,
+	PrincipalCV,
+	TransactionVersion,
+} from "@stacks/transactions";
+import {
+	generateAdvanceSignature,
+	SIGNATURE_EXPIRY,
+} from "./signature-helper";
+
+/**
+ * A decided match of a tournament
+ */
+export interface MatchResult {
+	round: number;
+	matchId: number;
+	winner: string;
+	loser: string;
+}
+
+/**
+ * Picks the winner of a match between the players at bracket positions 2m and
+ * 2m+1 of a round
+ */
+export type PickWinner = (
+	first: string,
+	second: string,
+	round: number,
+	matchId: number
+) => string;
+
+/**
+ * The player registered first, i.e. the better seed, wins every match
+ */
+export const topSeedWins: PickWinner = (first) => first;
+
+/**
+ * How a tournament ended, with every match in round order
+ */
+export interface TournamentResult {
+	champion: string;
+	runnerUp: string;
+	/** The two losing semi-finalists, who share third place */
+	semiFinalists: string[];
+	rounds: MatchResult[][];
+}
+
+export interface BracketSimulatorOptions {
+	/** The tournament contract name, defaults to `tournament` */
+	contract?: string;
+	/** The tournament's host, defaults to the deployer */
+	host?: string;
+	/** Decides every match, defaults to `topSeedWins` */
+	pickWinner?: PickWinner;
+	/**
+	 * Last block height at which the signed results are accepted, defaults to
+	 * `SIGNATURE_EXPIRY`
+	 */
+	expiry?: number;
+}
+
+/**
+ * Gets players for a tournament: the simnet wallets first, then accounts
+ * derived from a fixed seed and funded from the faucet, since simnet only
+ * ships eight wallets
+ * @param count - The number of players
+ * @param funding - The microSTX sent to each derived account
+ * @returns The players' addresses, always the same for the same count
+ */
+export const getTournamentPlayers = (
+	count: number,
+	funding = 100000000
+): string[] => {
+	const accounts = simnet.getAccounts();
+	const faucet = accounts.get("faucet")!;
+	const players: string[] = [];
+	for (let i = 1; players.length < count; i++) {
+		const wallet = accounts.get(`wallet_${i}`);
+		if (wallet) {
+			players.push(wallet);
+			continue;
+		}
+
+		const privateKey =
+			createHash("sha256").update(`stacks-wars-player-${i}`).digest("hex") +
+			"01";
+		const player = getAddressFromPrivateKey(
+			privateKey,
+			TransactionVersion.Testnet
+		);
+		const { result } = simnet.transferSTX(funding, player, faucet);
+		if (result.type !== ClarityType.ResponseOk) {
+			throw new Error(`Could not fund ${player} with ${funding} microSTX`);
+		}
+		players.push(player);
+	}
+	return players;
+};
+
+/**
+ * Drives a tournament contract in simnet: registers the players, starts the
+ * bracket and submits a signed result for every match until a champion is
+ * crowned. The contract pairs players by registration order, so `players`
+ * is the seeding.
+ */
+export class BracketSimulator {
+	readonly contract: string;
+	readonly host: string;
+	private readonly pickWinner: PickWinner;
+	private readonly expiry: number;
+
+	/**
+	 * @param players - The players in seed order, as many as a supported
+	 * bracket size
+	 * @param options - The contract, host, match outcomes and signature expiry
+	 */
+	constructor(
+		readonly players: string[],
+		options: BracketSimulatorOptions = {}
+	) {
+		this.contract = options.contract ?? "tournament";
+		this.host = options.host ?? simnet.deployer;
+		this.pickWinner = options.pickWinner ?? topSeedWins;
+		this.expiry = options.expiry ?? SIGNATURE_EXPIRY;
+	}
+
+	/**
+	 * Registers every player, paying their buy-in
+	 */
+	register() {
+		for (const player of this.players) {
+			this.call("register", [], player);
+		}
+	}
+
+	/**
+	 * Starts the bracket as the host
+	 */
+	start() {
+		this.call("start-tournament", [], this.host);
+	}
+
+	/**
+	 * Reads the players of a round by bracket position
+	 * @param round - The round, starting at 1
+	 */
+	getRoundEntrants(round: number): string[] {
+		const { result } = simnet.callReadOnlyFn(
+			this.contract,
+			"get-round-entrants",
+			[Cl.uint(round)],
+			simnet.deployer
+		);
+		return (result as ListCV<PrincipalCV>).list.map((player) =>
+			cvToValue(player)
+		);
+	}
+
+	/**
+	 * Signs and submits the winner of one match of the current round
+	 * @param round - The current round
+	 * @param matchId - The match within the round
+	 * @param winner - One of the match's two players
+	 */
+	async advance(round: number, matchId: number, winner: string) {
+		const signature = await generateAdvanceSignature({
+			round,
+			matchId,
+			winner,
+			contract: `${simnet.deployer}.${this.contract}`,
+			expiry: this.expiry,
+		});
+		return this.call(
+			"advance",
+			[
+				Cl.uint(round),
+				Cl.uint(matchId),
+				Cl.principal(winner),
+				Cl.uint(this.expiry),
+				Cl.bufferFromHex(signature),
+			],
+			this.host
+		);
+	}
+
+	/**
+	 * Plays every match of the current round
+	 * @returns The round's results in match order
+	 */
+	async playRound(): Promise<MatchResult[]> {
+		const round = this.readUint("get-current-round");
+		const entrants = this.getRoundEntrants(round);
+		const results: MatchResult[] = [];
+		for (let matchId = 0; matchId < entrants.length / 2; matchId++) {
+			const [first, second] = entrants.slice(matchId * 2, matchId * 2 + 2);
+			const winner = this.pickWinner(first, second, round, matchId);
+			await this.advance(round, matchId, winner);
+			results.push({
+				round,
+				matchId,
+				winner,
+				loser: winner === first ? second : first,
+			});
+		}
+		return results;
+	}
+
+	/**
+	 * Runs the whole tournament, from registration to the final
+	 * @returns The champion, the other placed players and every match
+	 */
+	async play(): Promise<TournamentResult> {
+		this.register();
+		this.start();
+
+		const rounds: MatchResult[][] = [];
+		const totalRounds = this.readUint("get-total-rounds");
+		while (rounds.length < totalRounds) {
+			rounds.push(await this.playRound());
+		}
+
+		const [final] = rounds[rounds.length - 1];
+		return {
+			champion: final.winner,
+			runnerUp: final.loser,
+			semiFinalists: rounds[rounds.length - 2].map((result) => result.loser),
+			rounds,
+		};
+	}
+
+	/**
+	 * Has every placed player claim their prize
+	 * @param result - The tournament's outcome, as returned by `play`
+	 * @returns The gross prize of each placed player
+	 */
+	claimPrizes(result: TournamentResult): Map<string, bigint> {
+		const prizes = new Map<string, bigint>();
+		for (const player of [
+			result.champion,
+			result.runnerUp,
+			...result.semiFinalists,
+		]) {
+			const { result: prize } = simnet.callReadOnlyFn(
+				this.contract,
+				"get-prize",
+				[Cl.principal(player)],
+				simnet.deployer
+			);
+			this.call("claim-prize", [], player);
+			prizes.set(player, cvToValue(prize));
+		}
+		return prizes;
+	}
+
+	private readUint(fn: string): number {
+		const { result } = simnet.callReadOnlyFn(
+			this.contract,
+			fn,
+			[],
+			simnet.deployer
+		);
+		return Number(cvToValue(result));
+	}
+
+	private call(fn: string, args: ClarityValue[], sender: string) {
+		const response = simnet.callPublicFn(this.contract, fn, args, sender);
+		if (response.result.type !== ClarityType.ResponseOk) {
+			throw new Error(
+				`${fn} failed for ${sender} with error ${cvToValue(response.result).value}`
+			);
+		}
+		return response;
+	}
+}
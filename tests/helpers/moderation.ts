@@ -0,0 +1,24 @@
+import { Cl } from "@stacks/transactions";
+
+/**
+ * How far the ban of a kick reaches, as passed to `kick`
+ */
+export const BanScope = {
+	None: 0,
+	// The player can't rejoin the pool that kicked them
+	Pool: 1,
+	// The player can't join any pool sharing the moderation list
+	Global: 2,
+} as const;
+
+/**
+ * Builds the arguments of a pool's `kick`
+ * @param player - The player to kick
+ * @param reason - The platform's reason code, recorded and printed with the kick
+ * @param ban - How far the player is banned from rejoining, defaults to no ban
+ */
+export const kickArgs = (
+	player: string,
+	reason = 0,
+	ban: number = BanScope.None
+) => [Cl.standardPrincipal(player), Cl.uint(reason), Cl.uint(ban)];
@@ -0,0 +1,145 @@
+import { createHash } from "crypto";
+import {
+	principalCV,
+	serializeCV,
+	tupleCV,
+	uintCV,
+} from "@stacks/transactions";
+import { PoolDomain, TESTNET_POOL_DOMAIN } from "./pool-message";
+import {
+	generatePayoutRootSignature,
+	TRUSTED_SIGNER,
+} from "./signature-helper";
+
+/**
+ * A single winner's payout
+ */
+export interface Payout {
+	winner: string;
+	/** Reward amount in the pool's base unit, before the platform fee */
+	amount: number;
+}
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+// Matches `claim-with-proof`, which takes at most 32 proof nodes
+const MAX_PROOF_LENGTH = 32;
+
+const sha256 = (data: Buffer): Buffer => {
+	return createHash("sha256").update(data).digest();
+};
+
+/**
+ * Hashes a payout leaf like `payout-leaf` in the pool contracts
+ * @param payout - The winner and amount
+ * @returns The 32-byte leaf hash
+ */
+export const hashPayoutLeaf = (payout: Payout): Buffer => {
+	const tuple = tupleCV({
+		winner: principalCV(payout.winner),
+		amount: uintCV(payout.amount),
+	});
+	return sha256(Buffer.concat([LEAF_PREFIX, Buffer.from(serializeCV(tuple))]));
+};
+
+/**
+ * Hashes two sibling nodes like `hash-proof-node`, smallest first
+ */
+const hashNodes = (a: Buffer, b: Buffer): Buffer => {
+	const [low, high] = Buffer.compare(a, b) < 0 ? [a, b] : [b, a];
+	return sha256(Buffer.concat([NODE_PREFIX, low, high]));
+};
+
+/**
+ * Merkle tree of a game's payouts
+ * The backend signs the root once with `sign` and posts it with
+ * `submit-payout-root`; each winner then claims with `claim-with-proof`
+ * using the proof from `getProof`.
+ */
+export class PayoutTree {
+	private readonly levels: Buffer[][];
+
+	/**
+	 * @param payouts - One payout per winner
+	 */
+	constructor(readonly payouts: Payout[]) {
+		if (payouts.length === 0) {
+			throw new Error("A payout tree needs at least one payout");
+		}
+
+		const winners = new Set(payouts.map((payout) => payout.winner));
+		if (winners.size !== payouts.length) {
+			throw new Error("Each winner can only appear once in a payout tree");
+		}
+
+		this.levels = [payouts.map(hashPayoutLeaf)];
+		while (this.levels[this.levels.length - 1].length > 1) {
+			const level = this.levels[this.levels.length - 1];
+			const next: Buffer[] = [];
+			for (let i = 0; i < level.length; i += 2) {
+				// An odd node out is carried up to the next level unchanged
+				next.push(
+					i + 1 < level.length ? hashNodes(level[i], level[i + 1]) : level[i]
+				);
+			}
+			this.levels.push(next);
+		}
+
+		if (this.levels.length - 1 > MAX_PROOF_LENGTH) {
+			throw new Error(
+				`Too many payouts for proofs of ${MAX_PROOF_LENGTH} nodes`
+			);
+		}
+	}
+
+	/**
+	 * The Merkle root as a hex string
+	 */
+	get root(): string {
+		return this.levels[this.levels.length - 1][0].toString("hex");
+	}
+
+	/**
+	 * Gets the proof a winner passes to `claim-with-proof`
+	 * @param winner - The winner's address
+	 * @returns The sibling hashes from leaf to root, as hex strings
+	 */
+	getProof(winner: string): string[] {
+		let index = this.payouts.findIndex((payout) => payout.winner === winner);
+		if (index === -1) {
+			throw new Error(`No payout for ${winner} in the payout tree`);
+		}
+
+		const proof: string[] = [];
+		for (const level of this.levels.slice(0, -1)) {
+			const sibling = index % 2 === 0 ? index + 1 : index - 1;
+			if (sibling < level.length) {
+				proof.push(level[sibling].toString("hex"));
+			}
+			index = Math.floor(index / 2);
+		}
+		return proof;
+	}
+
+	/**
+	 * Signs the root for a pool
+	 * @param contract - The pool contract address
+	 * @param expiry - Last block height at which the root can be submitted
+	 * @param signer - The name of the keyring signer to sign with
+	 * @param domain - The SIP-018 domain, simnet uses the testnet chain id
+	 * @returns The signature as a hex string
+	 */
+	sign(
+		contract: string,
+		expiry: number,
+		signer: string = TRUSTED_SIGNER,
+		domain: PoolDomain = TESTNET_POOL_DOMAIN
+	): Promise<string> {
+		return generatePayoutRootSignature(
+			{ root: this.root, contract, expiry },
+			signer,
+			domain
+		);
+	}
+}
@@ -0,0 +1,264 @@
+import {
+	ClarityType,
+	ClarityValue,
+	cvToValue,
+	hexToCV,
+	TupleCV,
+} from "@stacks/transactions";
+
+/**
+ * Events that carry only the common fields. What `player` and `amount` mean
+ * depends on the event:
+ * - join, leave, refund: the player and the amount moved for them
+ * - unban: the player whose pool ban was lifted, amount 0
+ * - lock, settle, close, cancel: the host, amount 0
+ * - sponsor: the sponsor and the amount added (co-sponsored pools)
+ * - remainder: the sponsor or treasury and what was left of a closed pool
+ * - referral: the referrer and their cut of a referred winner's fee
+ * - team-payout: the submitter and the amount owed to a team (team pools)
+ * - start, finish: the tournament host or champion and the prize pot
+ * - pause, unpause: the owner, amount 0
+ * - fee-bps: the host and the new fee in basis points
+ * - fee-wallet: the new fee wallet, amount 0
+ * - fee-sweep: the fee wallet and the amount swept
+ * - owner-proposed, owner-accepted, host: the new owner or host, amount 0
+ * - role-granted, role-revoked: the account and the role id
+ */
+export type BasicPoolEventName =
+	| "join"
+	| "leave"
+	| "unban"
+	| "lock"
+	| "settle"
+	| "close"
+	| "cancel"
+	| "sponsor"
+	| "remainder"
+	| "referral"
+	| "team-payout"
+	| "start"
+	| "finish"
+	| "pause"
+	| "unpause"
+	| "refund"
+	| "fee-bps"
+	| "fee-wallet"
+	| "fee-sweep"
+	| "owner-proposed"
+	| "owner-accepted"
+	| "host"
+	| "role-granted"
+	| "role-revoked";
+
+interface PoolEventBase {
+	/** The pool contract that printed the event */
+	contract: string;
+	player: string;
+	amount: bigint;
+	/** Block height of the state change */
+	block: number;
+	/** Team of the join, claim or payout, only printed by team pools */
+	team?: number;
+}
+
+/**
+ * A state change printed by a pool contract, discriminated by `event`
+ */
+export type PoolEvent =
+	| (PoolEventBase & { event: BasicPoolEventName })
+	// `player` removed by the host or a moderator, with the refund as `amount`,
+	// the reason code and how far they were banned (see BanScope)
+	| (PoolEventBase & { event: "kick"; reason: number; ban: number })
+	// `player` joining with `referrer` recorded as their referrer
+	| (PoolEventBase & { event: "referred"; referrer: string })
+	// A reward paid to `player`; `amount` is the gross reward
+	| (PoolEventBase & { event: "claim"; fee: bigint })
+	// A payout root committed by `player`, which settles the pool
+	| (PoolEventBase & { event: "payout-root"; root: string })
+	// A tournament buy-in paid by `player`, seeded in registration order
+	| (PoolEventBase & { event: "register"; seed: number })
+	// `player` winning match `matchId` of round `amount` against `loser`
+	| (PoolEventBase & { event: "advance"; matchId: number; loser: string })
+	// A tournament prize paid to `player` for their final `place`
+	| (PoolEventBase & { event: "prize"; fee: bigint; place: number })
+	// The token a sponsored FT pool was fixed to
+	| (PoolEventBase & { event: "initialize"; token: string })
+	// The treasury set by `player` for the remainder of a closed sponsored
+	// pool, null when it goes back to the sponsors
+	| (PoolEventBase & { event: "treasury"; treasury: string | null });
+
+/**
+ * Print event as found in simnet transaction results
+ */
+export interface SimnetPrintEvent {
+	event: string;
+	data: {
+		contract_identifier?: string;
+		topic?: string;
+		value?: ClarityValue;
+	};
+}
+
+/**
+ * Contract log event as returned by the Stacks API
+ */
+export interface ApiContractLogEvent {
+	event_type: string;
+	contract_log?: {
+		contract_id: string;
+		topic: string;
+		value: { hex: string };
+	};
+}
+
+const POOL_EVENT_NAMES = new Set<string>([
+	"join",
+	"leave",
+	"kick",
+	"unban",
+	"lock",
+	"settle",
+	"close",
+	"cancel",
+	"sponsor",
+	"remainder",
+	"referral",
+	"referred",
+	"team-payout",
+	"register",
+	"start",
+	"advance",
+	"finish",
+	"prize",
+	"pause",
+	"unpause",
+	"refund",
+	"fee-bps",
+	"fee-wallet",
+	"fee-sweep",
+	"owner-proposed",
+	"owner-accepted",
+	"host",
+	"role-granted",
+	"role-revoked",
+	"claim",
+	"payout-root",
+	"initialize",
+	"treasury",
+]);
+
+const isApiEvent = (
+	event: SimnetPrintEvent | ApiContractLogEvent
+): event is ApiContractLogEvent => "event_type" in event;
+
+/**
+ * Decodes a pool event from a simnet print event or a Stacks API contract log
+ * @param event - The raw event
+ * @returns The decoded event, or undefined if it is not a pool event
+ */
+export const decodePoolEvent = (
+	event: SimnetPrintEvent | ApiContractLogEvent
+): PoolEvent | undefined => {
+	let contract: string;
+	let value: ClarityValue;
+
+	if (isApiEvent(event)) {
+		if (event.event_type !== "smart_contract_log" || !event.contract_log) {
+			return undefined;
+		}
+		contract = event.contract_log.contract_id;
+		value = hexToCV(event.contract_log.value.hex);
+	} else {
+		if (
+			event.event !== "print_event" ||
+			!event.data.contract_identifier ||
+			!event.data.value
+		) {
+			return undefined;
+		}
+		contract = event.data.contract_identifier;
+		value = event.data.value;
+	}
+
+	if (value.type !== ClarityType.Tuple) {
+		return undefined;
+	}
+	const { data } = value as TupleCV;
+	if (
+		!data.event ||
+		data.event.type !== ClarityType.StringASCII ||
+		!POOL_EVENT_NAMES.has(data.event.data)
+	) {
+		return undefined;
+	}
+
+	const base: PoolEventBase = {
+		contract,
+		player: cvToValue(data.player),
+		amount: cvToValue(data.amount),
+		block: Number(cvToValue(data.block)),
+		...(data.team && { team: Number(cvToValue(data.team)) }),
+	};
+
+	switch (data.event.data) {
+		case "kick":
+			return {
+				...base,
+				event: "kick",
+				reason: Number(cvToValue(data.reason)),
+				ban: Number(cvToValue(data.ban)),
+			};
+		case "referred":
+			return { ...base, event: "referred", referrer: cvToValue(data.referrer) };
+		case "claim":
+			return { ...base, event: "claim", fee: cvToValue(data.fee) };
+		case "register":
+			return { ...base, event: "register", seed: Number(cvToValue(data.seed)) };
+		case "advance":
+			return {
+				...base,
+				event: "advance",
+				matchId: Number(cvToValue(data["match-id"])),
+				loser: cvToValue(data.loser),
+			};
+		case "prize":
+			return {
+				...base,
+				event: "prize",
+				fee: cvToValue(data.fee),
+				place: Number(cvToValue(data.place)),
+			};
+		case "payout-root":
+			return {
+				...base,
+				event: "payout-root",
+				root: cvToValue(data.root).replace(/^0x/, ""),
+			};
+		case "initialize":
+			return { ...base, event: "initialize", token: cvToValue(data.token) };
+		case "treasury":
+			return {
+				...base,
+				event: "treasury",
+				treasury:
+					data.treasury.type === ClarityType.OptionalSome
+						? cvToValue(data.treasury.value)
+						: null,
+			};
+		default:
+			return { ...base, event: data.event.data as BasicPoolEventName };
+	}
+};
+
+/**
+ * Decodes every pool event in a list of events, skipping the others
+ * @param events - The raw events, e.g. a simnet transaction's events
+ * @returns The decoded pool events, in order
+ */
+export const decodePoolEvents = (
+	events: (SimnetPrintEvent | ApiContractLogEvent)[]
+): PoolEvent[] => {
+	return events
+		.map(decodePoolEvent)
+		.filter((event): event is PoolEvent => event !== undefined);
+};
@@ -0,0 +1,56 @@
+import { cvToValue } from "@stacks/transactions";
+
+/**
+ * Pool lifecycle states, as returned by `get-pool-status`
+ */
+export const PoolStatus = {
+	Open: 1,
+	Locked: 2,
+	Settled: 3,
+	Cancelled: 4,
+	// Only in sponsored pools, where closing a settled pool ends claims
+	Closed: 5,
+} as const;
+
+/**
+ * Locks a pool as its host, closing it to joins and departures
+ * @param contract - The pool contract name
+ * @param host - The pool's host, defaults to the deployer
+ */
+export const lockPool = (contract: string, host: string = simnet.deployer) => {
+	return simnet.callPublicFn(contract, "lock-pool", [], host);
+};
+
+/**
+ * Locks then settles a pool as its host, opening claims
+ * @param contract - The pool contract name
+ * @param host - The pool's host, defaults to the deployer
+ */
+export const settlePool = (contract: string, host: string = simnet.deployer) => {
+	lockPool(contract, host);
+	return simnet.callPublicFn(contract, "settle-pool", [], host);
+};
+
+/**
+ * Reads the block after which an unsettled pool can be refunded
+ * @param contract - The pool contract name
+ * @returns The refund deadline block height
+ */
+export const getRefundDeadline = (contract: string): number => {
+	const { result } = simnet.callReadOnlyFn(
+		contract,
+		"get-refund-deadline",
+		[],
+		simnet.deployer
+	);
+	return Number(cvToValue(result));
+};
+
+/**
+ * Mines empty blocks so the next transaction runs past the refund deadline
+ * @param contract - The pool contract name
+ */
+export const passRefundDeadline = (contract: string) => {
+	// Transactions run in the block after simnet.blockHeight
+	simnet.mineEmptyBlocks(getRefundDeadline(contract) - simnet.blockHeight);
+};
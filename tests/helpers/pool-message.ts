@@ -0,0 +1,294 @@
+import { createHash } from "crypto";
+import {
+	bufferCV,
+	createMessageSignature,
+	encodeStructuredData,
+	listCV,
+	principalCV,
+	publicKeyFromSignatureRsv,
+	serializeCV,
+	stringAsciiCV,
+	tupleCV,
+	uintCV,
+} from "@stacks/transactions";
+
+/**
+ * Actions a pool signature can authorize. Each one is part of the signed
+ * tuple, so a signature issued for one action is rejected by the others.
+ */
+export type PoolAction = "leave" | "claim" | "sponsor-withdraw";
+
+/**
+ * The message signed by the trusted signer, mirroring the tuple built by
+ * `construct-message-hash` in the pool contracts
+ */
+export interface PoolMessage {
+	action: PoolAction;
+	amount: number;
+	winner: string;
+	contract: string;
+	/** The winner's current nonce, as returned by `get-player-nonce` */
+	nonce: number;
+	/** Last block height at which the signature is accepted */
+	expiry: number;
+}
+
+/**
+ * The message signed to commit a game's payout tree, mirroring the tuple built
+ * by `construct-root-hash` in the pool contracts
+ */
+export interface PayoutRootMessage {
+	/** The Merkle root of the payouts as a hex string */
+	root: string;
+	contract: string;
+	/** Last block height at which the root can be submitted */
+	expiry: number;
+}
+
+/**
+ * A team member's weight in a team payout
+ */
+export interface TeamWeight {
+	player: string;
+	weight: number;
+}
+
+/**
+ * The message signed to pay a team of a team pool, mirroring the tuple built
+ * by `construct-team-payout-hash` in `team-pool`
+ */
+export interface TeamPayoutMessage {
+	team: number;
+	/** Total paid to the team, before each member's platform fee */
+	amount: number;
+	/** Members' weights, at most one per team seat; empty for an even split */
+	weights: TeamWeight[];
+	contract: string;
+	/** Last block height at which the payout can be submitted */
+	expiry: number;
+}
+
+/**
+ * The message signed to advance the winner of a tournament match, mirroring
+ * the tuple built by `construct-advance-hash` in `tournament`
+ */
+export interface AdvanceMessage {
+	round: number;
+	/** The match within the round, pitting bracket positions 2m and 2m+1 */
+	matchId: number;
+	winner: string;
+	contract: string;
+	/** Last block height at which the result can be submitted */
+	expiry: number;
+}
+
+/**
+ * SIP-018 domain the pool contracts hash their messages under
+ */
+export interface PoolDomain {
+	name: string;
+	version: string;
+	/** The `chain-id` of the network the pool is deployed on */
+	chainId: number;
+}
+
+/**
+ * Chain ids as returned by the Clarity `chain-id` keyword
+ */
+export const CHAIN_ID_MAINNET = 1;
+export const CHAIN_ID_TESTNET = 2147483648;
+
+/**
+ * Creates the pool domain for a network
+ * @param chainId - The chain id of the network
+ * @returns The domain matching `MESSAGE_DOMAIN` in the pool contracts
+ */
+export const poolDomain = (chainId: number): PoolDomain => ({
+	name: "stacks-wars",
+	version: "1",
+	chainId,
+});
+
+/**
+ * Domain used on testnet, devnet and simnet
+ */
+export const TESTNET_POOL_DOMAIN = poolDomain(CHAIN_ID_TESTNET);
+
+/**
+ * Domain used on mainnet
+ */
+export const MAINNET_POOL_DOMAIN = poolDomain(CHAIN_ID_MAINNET);
+
+const poolMessageCV = (message: PoolMessage) =>
+	tupleCV({
+		action: stringAsciiCV(message.action),
+		amount: uintCV(message.amount),
+		winner: principalCV(message.winner),
+		contract: principalCV(message.contract),
+		nonce: uintCV(message.nonce),
+		expiry: uintCV(message.expiry),
+	});
+
+const poolDomainCV = (domain: PoolDomain) =>
+	tupleCV({
+		name: stringAsciiCV(domain.name),
+		version: stringAsciiCV(domain.version),
+		"chain-id": uintCV(domain.chainId),
+	});
+
+/**
+ * Serializes a pool message the way `to-consensus-buff?` does
+ * @param message - The pool message
+ * @returns The consensus serialization as a hex string
+ */
+export const serializePoolMessage = (message: PoolMessage): string => {
+	return Buffer.from(serializeCV(poolMessageCV(message))).toString("hex");
+};
+
+/**
+ * Hashes a pool message exactly like `construct-message-hash`: the SIP-018
+ * hash of the message tuple under the pool domain
+ * @param message - The pool message
+ * @param domain - The domain of the network the pool is deployed on
+ * @returns The 32-byte sha256 hash as a hex string
+ */
+export const hashPoolMessage = (
+	message: PoolMessage,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
+): string => {
+	const encoded = encodeStructuredData({
+		message: poolMessageCV(message),
+		domain: poolDomainCV(domain),
+	});
+	return createHash("sha256").update(encoded).digest("hex");
+};
+
+/**
+ * Hashes a payout root message exactly like `construct-root-hash`
+ * @param message - The payout root message
+ * @param domain - The domain of the network the pool is deployed on
+ * @returns The 32-byte sha256 hash as a hex string
+ */
+export const hashPayoutRootMessage = (
+	message: PayoutRootMessage,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
+): string => {
+	const encoded = encodeStructuredData({
+		message: tupleCV({
+			action: stringAsciiCV("payout-root"),
+			root: bufferCV(Buffer.from(message.root, "hex")),
+			contract: principalCV(message.contract),
+			expiry: uintCV(message.expiry),
+		}),
+		domain: poolDomainCV(domain),
+	});
+	return createHash("sha256").update(encoded).digest("hex");
+};
+
+/**
+ * Converts team weights to the list taken by `submit-team-payout`
+ * @param weights - The members' weights
+ * @returns The weights as a Clarity list of tuples
+ */
+export const teamWeightsCV = (weights: TeamWeight[]) =>
+	listCV(
+		weights.map(({ player, weight }) =>
+			tupleCV({ player: principalCV(player), weight: uintCV(weight) })
+		)
+	);
+
+/**
+ * Hashes a team payout message exactly like `construct-team-payout-hash`
+ * @param message - The team payout message
+ * @param domain - The domain of the network the pool is deployed on
+ * @returns The 32-byte sha256 hash as a hex string
+ */
+export const hashTeamPayoutMessage = (
+	message: TeamPayoutMessage,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
+): string => {
+	const encoded = encodeStructuredData({
+		message: tupleCV({
+			action: stringAsciiCV("team-payout"),
+			team: uintCV(message.team),
+			amount: uintCV(message.amount),
+			weights: teamWeightsCV(message.weights),
+			contract: principalCV(message.contract),
+			expiry: uintCV(message.expiry),
+		}),
+		domain: poolDomainCV(domain),
+	});
+	return createHash("sha256").update(encoded).digest("hex");
+};
+
+/**
+ * Hashes a tournament advance message exactly like `construct-advance-hash`
+ * @param message - The advance message
+ * @param domain - The domain of the network the tournament is deployed on
+ * @returns The 32-byte sha256 hash as a hex string
+ */
+export const hashAdvanceMessage = (
+	message: AdvanceMessage,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
+): string => {
+	const encoded = encodeStructuredData({
+		message: tupleCV({
+			action: stringAsciiCV("advance"),
+			round: uintCV(message.round),
+			"match-id": uintCV(message.matchId),
+			winner: principalCV(message.winner),
+			contract: principalCV(message.contract),
+			expiry: uintCV(message.expiry),
+		}),
+		domain: poolDomainCV(domain),
+	});
+	return createHash("sha256").update(encoded).digest("hex");
+};
+
+/**
+ * Recovers the public key that signed a pool message, as `secp256k1-recover?`
+ * does on-chain. Useful to find out which key produced a rejected signature.
+ * @param message - The pool message
+ * @param signature - The 65-byte RSV signature as a hex string
+ * @param domain - The domain of the network the pool is deployed on
+ * @returns The compressed public key as a hex string, or undefined if the
+ * signature is malformed
+ */
+export const recoverPoolSigner = (
+	message: PoolMessage,
+	signature: string,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
+): string | undefined => {
+	if (!/^[0-9a-fA-F]{130}$/.test(signature)) {
+		return undefined;
+	}
+
+	try {
+		return publicKeyFromSignatureRsv(
+			hashPoolMessage(message, domain),
+			createMessageSignature(signature)
+		);
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Checks a signature against a pool message and public key without
+ * submitting it. Expiry, nonce freshness and the signer registry are on-chain
+ * state and are not checked here.
+ * @param message - The pool message
+ * @param signature - The 65-byte RSV signature as a hex string
+ * @param publicKey - The compressed public key as a hex string
+ * @param domain - The domain of the network the pool is deployed on
+ * @returns Whether the contract would accept the signature for this key
+ */
+export const verifyPoolSignature = (
+	message: PoolMessage,
+	signature: string,
+	publicKey: string,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
+): boolean => {
+	const signer = recoverPoolSigner(message, signature, domain);
+	return signer !== undefined && signer === publicKey.toLowerCase();
+};
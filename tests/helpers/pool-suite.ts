@@ -0,0 +1,194 @@
+import { Cl, ClarityValue } from "@stacks/transactions";
+import { generateSignature, registerTrustedSigner } from "./signature-helper";
+import { getSbtcBalance } from "./sbtc";
+
+/**
+ * Error codes the suites shared by every pool check, which moved as each
+ * pool gained its own errors
+ */
+export type PoolErrors = Record<
+	| "notJoinable"
+	| "unauthorized"
+	| "invalidStatus"
+	| "notEmpty"
+	| "invalidRole"
+	| "paused"
+	| "banned"
+	| "invalidBan"
+	| "notBanned"
+	| "selfReferral"
+	| "circularReferral",
+	number
+>;
+
+/**
+ * A pool contract the shared suites run against
+ */
+export interface PoolVariant {
+	/** Contract name */
+	pool: string;
+	/** Whether the host sponsors the pool instead of paying an entry fee */
+	sponsored: boolean;
+	/** Whether sponsors take the remainder back with `claim-refund` */
+	coSponsored: boolean;
+	/** Arguments its fund-moving functions take before their own */
+	tokenArgs: ClarityValue[];
+	/** What the host puts in when joining: the entry fee or the sponsorship */
+	stake: number;
+	/** What a player other than the host pays to join */
+	playerStake: number;
+	/** Reads a balance in the pool's token */
+	balanceOf: (address: string) => bigint;
+	errors: PoolErrors;
+}
+
+const ENTRY_FEE_POOL_ERRORS: PoolErrors = {
+	notJoinable: 15,
+	unauthorized: 16,
+	invalidStatus: 21,
+	notEmpty: 26,
+	invalidRole: 27,
+	paused: 28,
+	banned: 29,
+	invalidBan: 30,
+	notBanned: 31,
+	selfReferral: 32,
+	circularReferral: 33,
+};
+
+const SPONSORED_POOL_ERRORS: PoolErrors = {
+	notJoinable: 15,
+	notEmpty: 16,
+	unauthorized: 17,
+	invalidStatus: 22,
+	invalidRole: 28,
+	paused: 29,
+	banned: 30,
+	invalidBan: 31,
+	notBanned: 32,
+	selfReferral: 33,
+	circularReferral: 34,
+};
+
+const stxBalanceOf = (address: string) =>
+	simnet.getAssetsMap().get("STX")?.get(address) ?? 0n;
+
+/**
+ * Every pool variant, STX and sBTC entry-fee pools first
+ */
+export const POOLS: PoolVariant[] = [
+	{
+		pool: "factory",
+		sponsored: false,
+		coSponsored: false,
+		tokenArgs: [],
+		stake: 5000000,
+		playerStake: 5000000,
+		balanceOf: stxBalanceOf,
+		errors: ENTRY_FEE_POOL_ERRORS,
+	},
+	{
+		pool: "sbtc-pool",
+		sponsored: false,
+		coSponsored: false,
+		tokenArgs: [],
+		stake: 5000000,
+		playerStake: 5000000,
+		balanceOf: getSbtcBalance,
+		errors: ENTRY_FEE_POOL_ERRORS,
+	},
+	{
+		pool: "sponsored-pool",
+		sponsored: true,
+		coSponsored: true,
+		tokenArgs: [],
+		stake: 50000000,
+		playerStake: 0,
+		balanceOf: stxBalanceOf,
+		errors: SPONSORED_POOL_ERRORS,
+	},
+	{
+		pool: "sponsored-sbtc-pool",
+		sponsored: true,
+		coSponsored: true,
+		tokenArgs: [],
+		stake: 50000000,
+		playerStake: 0,
+		balanceOf: getSbtcBalance,
+		errors: SPONSORED_POOL_ERRORS,
+	},
+	{
+		pool: "sponsored-ft-pool",
+		sponsored: true,
+		coSponsored: false,
+		tokenArgs: [Cl.contractPrincipal(simnet.deployer, "test-token")],
+		stake: 5000000,
+		playerStake: 0,
+		balanceOf: (address: string) =>
+			simnet.getAssetsMap().get(".test-token.test-token")?.get(address) ?? 0n,
+		errors: {
+			...SPONSORED_POOL_ERRORS,
+			invalidRole: 30,
+			paused: 31,
+			banned: 32,
+			invalidBan: 33,
+			notBanned: 34,
+			selfReferral: 35,
+			circularReferral: 36,
+		},
+	},
+];
+
+/**
+ * The pools a host sponsors instead of paying an entry fee
+ */
+export const SPONSORED_POOLS = POOLS.filter(({ sponsored }) => sponsored);
+
+/**
+ * Registers the test signer and, for the token pool, fixes its token and
+ * mints the deployer's supply. Call it first in a suite's `beforeEach`.
+ * @param variant - The pool under test
+ */
+export const preparePool = async ({ pool, tokenArgs }: PoolVariant) => {
+	await registerTrustedSigner();
+	if (pool === "sponsored-ft-pool") {
+		simnet.callPublicFn(pool, "initialize", tokenArgs, simnet.deployer);
+		simnet.callPublicFn("test-token", "mint-initial-supply", [], simnet.deployer);
+	}
+};
+
+/**
+ * Binds the calls a suite makes to the pool under test
+ * @param variant - The pool under test
+ */
+export const poolCalls = ({ pool, tokenArgs }: PoolVariant) => {
+	const contract = `${simnet.deployer}.${pool}`;
+
+	const call = (fn: string, args: ClarityValue[], sender: string) =>
+		simnet.callPublicFn(pool, fn, args, sender);
+
+	return {
+		/** Full contract id, as signed in pool messages */
+		contract,
+		call,
+		/** Calls a read-only function as the deployer and returns its result */
+		readOnly: (fn: string, args: ClarityValue[] = []) =>
+			simnet.callReadOnlyFn(pool, fn, args, simnet.deployer).result,
+		/** Signs a pool message for the winner's first nonce */
+		signed: async (
+			action: "leave" | "claim" | "sponsor-withdraw",
+			amount: number,
+			winner: string
+		) =>
+			Cl.bufferFromHex(
+				await generateSignature({
+					action,
+					amount,
+					winner,
+					contract,
+					nonce: 0,
+				})
+			),
+		join: (player: string) => call("join", tokenArgs, player),
+	};
+};
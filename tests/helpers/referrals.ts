@@ -0,0 +1,74 @@
+import { Cl, cvToValue, validateStacksAddress } from "@stacks/transactions";
+
+/**
+ * What a referrer earned from the fees of the players they referred
+ */
+export interface ReferralEarnings {
+	/** Earnings per pool contract id, in each pool's own asset */
+	byPool: Record<string, bigint>;
+	/** Sum over the pools, only meaningful for pools paying the same asset */
+	total: bigint;
+}
+
+// Bare names are deployer contracts, anything else is already a principal
+const toContractId = (pool: string) =>
+	pool.includes(".") || validateStacksAddress(pool)
+		? pool
+		: `${simnet.deployer}.${pool}`;
+
+/**
+ * Reads a referrer's earnings from the referrals contract
+ * @param referrer - The referrer's address
+ * @param pools - Pool contract names or principals to read, e.g. every STX pool
+ * @returns The earnings in each pool and their sum
+ */
+export const getReferralEarnings = (
+	referrer: string,
+	pools: string[]
+): ReferralEarnings => {
+	const byPool: Record<string, bigint> = {};
+	for (const pool of pools.map(toContractId)) {
+		const { result } = simnet.callReadOnlyFn(
+			"referrals",
+			"get-earnings",
+			[Cl.principal(referrer), Cl.principal(pool)],
+			simnet.deployer
+		);
+		byPool[pool] = cvToValue(result);
+	}
+	return {
+		byPool,
+		total: Object.values(byPool).reduce((sum, amount) => sum + amount, 0n),
+	};
+};
+
+/**
+ * Reads who referred a player
+ * @param player - The player's address
+ * @returns The referrer's address, or undefined if nobody referred the player
+ */
+export const getReferrer = (player: string): string | undefined => {
+	const { result } = simnet.callReadOnlyFn(
+		"referrals",
+		"get-referrer",
+		[Cl.principal(player)],
+		simnet.deployer
+	);
+	return cvToValue(result)?.value;
+};
+
+/**
+ * Adds pools to the referrals contract, so they record referrals and pay
+ * referrers
+ * @param pools - Pool contract names or ids
+ */
+export const listReferralPools = (...pools: string[]) => {
+	for (const pool of pools.map(toContractId)) {
+		simnet.callPublicFn(
+			"referrals",
+			"add-pool",
+			[Cl.principal(pool)],
+			simnet.deployer
+		);
+	}
+};
@@ -0,0 +1,77 @@
+import { Cl, ClarityType, cvToValue } from "@stacks/transactions";
+
+/**
+ * The sBTC token contract, deployed in simnet through the sbtc-deposit
+ * requirement in Clarinet.toml
+ */
+export const SBTC_TOKEN = "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token";
+
+/**
+ * Asset identifier of sBTC, as found in `ft_transfer_event`s
+ */
+export const SBTC_ASSET_IDENTIFIER = `${SBTC_TOKEN}::sbtc-token`;
+
+/**
+ * Reads the sBTC balance of an account
+ * @param address - The standard or contract principal
+ * @returns The balance in sats
+ */
+export const getSbtcBalance = (address: string): bigint => {
+	const { result } = simnet.callReadOnlyFn(
+		SBTC_TOKEN,
+		"get-balance",
+		[Cl.principal(address)],
+		simnet.deployer
+	);
+	return BigInt(cvToValue(result).value);
+};
+
+/**
+ * Sends sBTC to a wallet. Every simnet wallet starts with the `sbtc-balance`
+ * of the deployment plan, so funds are taken from one of them.
+ * @param recipient - The principal to fund
+ * @param amount - The amount in sats
+ * @param sender - The wallet the sBTC is taken from, defaults to the faucet
+ */
+export const fundSbtc = (
+	recipient: string,
+	amount: number | bigint,
+	sender: string = simnet.getAccounts().get("faucet")!
+) => {
+	const { result } = simnet.callPublicFn(
+		SBTC_TOKEN,
+		"transfer",
+		[
+			Cl.uint(amount),
+			Cl.principal(sender),
+			Cl.principal(recipient),
+			Cl.none(),
+		],
+		sender
+	);
+	if (result.type !== ClarityType.ResponseOk) {
+		throw new Error(`Could not fund ${recipient} with ${amount} sats of sBTC`);
+	}
+	return result;
+};
+
+/**
+ * Builds the `ft_transfer_event` emitted by an sBTC transfer, to match against
+ * a transaction's events
+ * @param amount - The amount in sats
+ * @param sender - The principal sending the sBTC
+ * @param recipient - The principal receiving the sBTC
+ */
+export const sbtcTransferEvent = (
+	amount: number | bigint,
+	sender: string,
+	recipient: string
+) => ({
+	event: "ft_transfer_event",
+	data: {
+		amount: amount.toString(),
+		sender,
+		recipient,
+		asset_identifier: SBTC_ASSET_IDENTIFIER,
+	},
+});
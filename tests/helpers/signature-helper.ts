@@ -1,64 +1,176 @@
-import { createHash } from "crypto";
-import { generateWallet } from "@stacks/wallet-sdk";
-import {
-	createStacksPrivateKey,
-	signMessageHashRsv,
-	tupleCV,
-	uintCV,
-	principalCV,
-	serializeCV,
-} from "@stacks/transactions";
+import { Cl } from "@stacks/transactions";
 import dotenv from "dotenv";
+import {
+	AdvanceMessage,
+	hashAdvanceMessage,
+	hashPayoutRootMessage,
+	hashPoolMessage,
+	hashTeamPayoutMessage,
+	PayoutRootMessage,
+	PoolDomain,
+	PoolMessage,
+	TeamPayoutMessage,
+	TESTNET_POOL_DOMAIN,
+} from "./pool-message";
+import { createSignerFromEnv } from "./signer";
+import { SignerKeyring } from "./signer-keyring";
 dotenv.config({ path: ".env.test" });
 
 /**
- * Gets the trusted signer private key from environment variables
- * Falls back to hardcoded key if not found in .env
+ * Name of the trusted signer key in the shared keyring
+ */
+export const TRUSTED_SIGNER = "trusted";
+
+/**
+ * Expiry the generate*Signature helpers sign for when a message leaves it
+ * out: a block height far beyond anything the test suites reach
+ */
+export const SIGNATURE_EXPIRY = 1000;
+
+/**
+ * A signed message whose expiry defaults to SIGNATURE_EXPIRY
+ */
+type WithDefaultExpiry<T extends { expiry: number }> = Omit<T, "expiry"> & {
+	expiry?: number;
+};
+
+const withExpiry = <T extends { expiry: number }>(
+	message: WithDefaultExpiry<T>
+) => ({ ...message, expiry: message.expiry ?? SIGNATURE_EXPIRY }) as T;
+
+/**
+ * Keyring shared by every test; add keys to it to sign with other signers
  */
-const getSignerPrivateKey = async (): Promise<string> => {
-	// Try to get from environment first
-	const secretKey = process.env.TRUSTED_SIGNER_SECRET_KEY;
+export const keyring = new SignerKeyring();
 
-	if (secretKey) {
-		const wallet = await generateWallet({ secretKey, password: "" });
-		return wallet.accounts[0].stxPrivateKey;
+/**
+ * Adds the trusted signer configured in the environment to the shared keyring
+ * on first use
+ */
+const loadTrustedSigner = (): void => {
+	if (!keyring.has(TRUSTED_SIGNER)) {
+		keyring.add(TRUSTED_SIGNER, createSignerFromEnv());
 	}
+};
 
-	// Fallback to a default private key for testing
-	return "753b7cc01a1a2e86221266a154af739463fce51219d97e4f856cd7200c3bd2a601";
+/**
+ * Gets the public key of the trusted signer
+ * @returns The compressed public key as a hex string
+ */
+export const getTrustedPublicKey = async (): Promise<string> => {
+	loadTrustedSigner();
+	return keyring.getPublicKey(TRUSTED_SIGNER);
+};
+
+/**
+ * Registers a public key in the simnet signer registry
+ * @param publicKey - The compressed public key as a hex string
+ * @param activatedAt - The block height from which the key is active
+ */
+export const registerSigner = (publicKey: string, activatedAt = 0) => {
+	return simnet.callPublicFn(
+		"signer-registry",
+		"add-signer",
+		[Cl.bufferFromHex(publicKey), Cl.uint(activatedAt)],
+		simnet.deployer
+	);
 };
 
 /**
- * Generates a signature for the given amount and claimer
- * @param amount - The amount in microSTX
- * @param claimerAddress - The address of the claimer
- * @param contractAddress - The contract address
+ * Registers the trusted signer in the simnet signer registry
+ * The registry only ships with the production key, so tests call this before
+ * submitting signatures made with the local test key
+ */
+export const registerTrustedSigner = async () => {
+	return registerSigner(await getTrustedPublicKey());
+};
+
+export type {
+	AdvanceMessage,
+	PayoutRootMessage,
+	PoolAction,
+	PoolDomain,
+	PoolMessage,
+	TeamPayoutMessage,
+	TeamWeight,
+} from "./pool-message";
+export {
+	CHAIN_ID_MAINNET,
+	CHAIN_ID_TESTNET,
+	MAINNET_POOL_DOMAIN,
+	poolDomain,
+	TESTNET_POOL_DOMAIN,
+	hashAdvanceMessage,
+	hashPayoutRootMessage,
+	hashPoolMessage,
+	hashTeamPayoutMessage,
+	recoverPoolSigner,
+	teamWeightsCV,
+	verifyPoolSignature,
+} from "./pool-message";
+
+/**
+ * Generates a signature for the given pool message
+ * @param message - The action, amount in microSTX, claimer, contract address, nonce and expiry (SIGNATURE_EXPIRY if omitted)
+ * @param signer - The name of the keyring signer to sign with
+ * @param domain - The SIP-018 domain, simnet uses the testnet chain id
  * @returns The signature as a hex string
  */
 export const generateSignature = async (
-	amount: number,
-	claimerAddress: string,
-	contractAddress: string
+	message: WithDefaultExpiry<PoolMessage>,
+	signer: string = TRUSTED_SIGNER,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
 ): Promise<string> => {
-	const message = tupleCV({
-		amount: uintCV(amount),
-		winner: principalCV(claimerAddress),
-		contract: principalCV(contractAddress),
-	});
-
-	const serialized = serializeCV(message);
-	const buffer = Buffer.from(serialized);
-	const hash = createHash("sha256").update(buffer).digest();
+	loadTrustedSigner();
+	return keyring.sign(signer, hashPoolMessage(withExpiry<PoolMessage>(message), domain));
+};
 
-	const privateKeyString = await getSignerPrivateKey();
-	const privateKey = createStacksPrivateKey(privateKeyString);
+/**
+ * Generates a signature committing a payout tree root to a pool
+ * @param message - The root, contract address and expiry (SIGNATURE_EXPIRY if omitted)
+ * @param signer - The name of the keyring signer to sign with
+ * @param domain - The SIP-018 domain, simnet uses the testnet chain id
+ * @returns The signature as a hex string
+ */
+export const generatePayoutRootSignature = async (
+	message: WithDefaultExpiry<PayoutRootMessage>,
+	signer: string = TRUSTED_SIGNER,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
+): Promise<string> => {
+	loadTrustedSigner();
+	return keyring.sign(signer, hashPayoutRootMessage(withExpiry<PayoutRootMessage>(message), domain));
+};
 
-	const signature = signMessageHashRsv({
-		messageHash: hash.toString("hex"),
-		privateKey,
-	});
+/**
+ * Generates a signature authorizing a payout to a team of a team pool
+ * @param message - The team, amount, member weights, contract address and expiry (SIGNATURE_EXPIRY if omitted)
+ * @param signer - The name of the keyring signer to sign with
+ * @param domain - The SIP-018 domain, simnet uses the testnet chain id
+ * @returns The signature as a hex string
+ */
+export const generateTeamPayoutSignature = async (
+	message: WithDefaultExpiry<TeamPayoutMessage>,
+	signer: string = TRUSTED_SIGNER,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
+): Promise<string> => {
+	loadTrustedSigner();
+	return keyring.sign(signer, hashTeamPayoutMessage(withExpiry<TeamPayoutMessage>(message), domain));
+};
 
-	return signature.data;
+/**
+ * Generates a signature advancing the winner of a tournament match
+ * @param message - The round, match, winner, contract address and expiry (SIGNATURE_EXPIRY if omitted)
+ * @param signer - The name of the keyring signer to sign with
+ * @param domain - The SIP-018 domain, simnet uses the testnet chain id
+ * @returns The signature as a hex string
+ */
+export const generateAdvanceSignature = async (
+	message: WithDefaultExpiry<AdvanceMessage>,
+	signer: string = TRUSTED_SIGNER,
+	domain: PoolDomain = TESTNET_POOL_DOMAIN
+): Promise<string> => {
+	loadTrustedSigner();
+	return keyring.sign(signer, hashAdvanceMessage(withExpiry<AdvanceMessage>(message), domain));
 };
 
 /**
@@ -0,0 +1,86 @@
+import { makeRandomPrivKey, privateKeyToString } from "@stacks/transactions";
+import { PrivateKeySigner, Signer } from "./signer";
+
+/**
+ * A set of named signers
+ * Every signer whose public key is registered in the `signer-registry`
+ * contract can sign pool messages, so tests can sign with old and new keys
+ * side by side to try rotation and retirement scenarios
+ */
+export class SignerKeyring {
+	private readonly signers = new Map<string, Signer>();
+
+	/**
+	 * Adds a named signer, replacing any signer with the same name
+	 * @param name - The name used to refer to the signer
+	 * @param signer - The signer
+	 */
+	add(name: string, signer: Signer): void {
+		this.signers.set(name, signer);
+	}
+
+	/**
+	 * Generates a random private key and adds it under the given name
+	 * @param name - The name used to refer to the signer
+	 * @returns The compressed public key as a hex string
+	 */
+	generate(name: string): string {
+		// The "01" suffix marks the key as compressed, matching the 33-byte
+		// public keys recovered by `secp256k1-recover?`
+		const signer = new PrivateKeySigner(
+			`${privateKeyToString(makeRandomPrivKey())}01`
+		);
+		this.add(name, signer);
+		return signer.publicKey;
+	}
+
+	/**
+	 * Removes a named signer
+	 * @param name - The name of the signer
+	 */
+	remove(name: string): void {
+		this.signers.delete(name);
+	}
+
+	/**
+	 * Checks whether a signer with the given name exists
+	 * @param name - The name of the signer
+	 */
+	has(name: string): boolean {
+		return this.signers.has(name);
+	}
+
+	/**
+	 * Lists the names of every signer in the keyring
+	 */
+	names(): string[] {
+		return [...this.signers.keys()];
+	}
+
+	/**
+	 * Gets the public key as stored in the signer registry
+	 * @param name - The name of the signer
+	 * @returns The compressed public key as a hex string
+	 */
+	getPublicKey(name: string): Promise<string> {
+		return this.get(name).getPublicKey();
+	}
+
+	/**
+	 * Signs a message hash with the named signer
+	 * @param name - The name of the signer
+	 * @param messageHash - The 32-byte message hash as a hex string
+	 * @returns The 65-byte RSV signature as a hex string
+	 */
+	sign(name: string, messageHash: string): Promise<string> {
+		return this.get(name).signMessageHash(messageHash);
+	}
+
+	private get(name: string): Signer {
+		const signer = this.signers.get(name);
+		if (!signer) {
+			throw new Error(`No signer named "${name}" in the keyring`);
+		}
+		return signer;
+	}
+}
@@ -0,0 +1,330 @@
+import { spawn } from "child_process";
+import {
+	createCipheriv,
+	createDecipheriv,
+	randomBytes,
+	scryptSync,
+} from "crypto";
+import { readFileSync } from "fs";
+import { HDKey } from "@scure/bip32";
+import { mnemonicToSeedSync } from "@scure/bip39";
+import {
+	createStacksPrivateKey,
+	getPublicKey,
+	publicKeyToString,
+	signMessageHashRsv,
+} from "@stacks/transactions";
+
+/**
+ * Signs pool message hashes for the trusted backend
+ * Implementations only differ in where the private key lives
+ */
+export interface Signer {
+	/**
+	 * Gets the compressed public key, as stored in the signer registry
+	 * @returns The public key as a hex string
+	 */
+	getPublicKey(): Promise<string>;
+
+	/**
+	 * Signs a message hash
+	 * @param messageHash - The 32-byte message hash as a hex string
+	 * @returns The 65-byte RSV signature as a hex string
+	 */
+	signMessageHash(messageHash: string): Promise<string>;
+}
+
+/**
+ * Devnet deployer key from settings/Devnet.toml, only used in test mode
+ */
+export const DEVNET_SIGNER_PRIVATE_KEY =
+	"753b7cc01a1a2e86221266a154af739463fce51219d97e4f856cd7200c3bd2a601";
+
+/**
+ * Default Stacks derivation path, the first account of a Stacks wallet
+ */
+export const STACKS_HD_PATH = "m/44'/5757'/0'/0/0";
+
+/**
+ * Signs with a raw private key held in memory
+ */
+export class PrivateKeySigner implements Signer {
+	readonly publicKey: string;
+
+	/**
+	 * @param privateKey - The private key as a hex string, with the "01"
+	 * suffix for compressed keys
+	 */
+	constructor(private readonly privateKey: string) {
+		this.publicKey = publicKeyToString(
+			getPublicKey(createStacksPrivateKey(privateKey))
+		);
+	}
+
+	async getPublicKey(): Promise<string> {
+		return this.publicKey;
+	}
+
+	async signMessageHash(messageHash: string): Promise<string> {
+		const privateKey = createStacksPrivateKey(this.privateKey);
+		return signMessageHashRsv({ messageHash, privateKey }).data;
+	}
+}
+
+/**
+ * Signs with a key derived from a BIP-39 mnemonic
+ */
+export class MnemonicSigner extends PrivateKeySigner {
+	/**
+	 * @param mnemonic - The BIP-39 mnemonic
+	 * @param path - The BIP-32 derivation path
+	 */
+	constructor(mnemonic: string, path: string = STACKS_HD_PATH) {
+		const key = HDKey.fromMasterSeed(mnemonicToSeedSync(mnemonic)).derive(
+			path
+		);
+		if (!key.privateKey) {
+			throw new Error(`No private key at derivation path ${path}`);
+		}
+		super(`${Buffer.from(key.privateKey).toString("hex")}01`);
+	}
+}
+
+/**
+ * Encrypted keystore file layout: the private key encrypted with AES-256-GCM
+ * under a key derived from a password with scrypt
+ */
+export interface Keystore {
+	version: 1;
+	kdf: "scrypt";
+	kdfparams: { n: number; r: number; p: number; salt: string };
+	cipher: "aes-256-gcm";
+	iv: string;
+	tag: string;
+	ciphertext: string;
+}
+
+const KEYSTORE_KDF_PARAMS = { n: 16384, r: 8, p: 1 };
+
+const deriveKeystoreKey = (
+	password: string,
+	params: Keystore["kdfparams"]
+): Buffer => {
+	return scryptSync(password, Buffer.from(params.salt, "hex"), 32, {
+		N: params.n,
+		r: params.r,
+		p: params.p,
+	});
+};
+
+/**
+ * Encrypts a private key into a keystore
+ * @param privateKey - The private key as a hex string
+ * @param password - The password protecting the keystore
+ * @returns The keystore, ready to be written as JSON
+ */
+export const encryptKeystore = (
+	privateKey: string,
+	password: string
+): Keystore => {
+	const kdfparams = {
+		...KEYSTORE_KDF_PARAMS,
+		salt: randomBytes(16).toString("hex"),
+	};
+	const iv = randomBytes(12);
+	const cipher = createCipheriv(
+		"aes-256-gcm",
+		deriveKeystoreKey(password, kdfparams),
+		iv
+	);
+	const ciphertext = Buffer.concat([
+		cipher.update(privateKey, "utf8"),
+		cipher.final(),
+	]);
+
+	return {
+		version: 1,
+		kdf: "scrypt",
+		kdfparams,
+		cipher: "aes-256-gcm",
+		iv: iv.toString("hex"),
+		tag: cipher.getAuthTag().toString("hex"),
+		ciphertext: ciphertext.toString("hex"),
+	};
+};
+
+/**
+ * Decrypts the private key held in a keystore
+ * @param keystore - The keystore
+ * @param password - The password protecting the keystore
+ * @returns The private key as a hex string
+ */
+export const decryptKeystore = (keystore: Keystore, password: string): string => {
+	if (keystore.version !== 1 || keystore.cipher !== "aes-256-gcm") {
+		throw new Error("Unsupported keystore format");
+	}
+
+	const decipher = createDecipheriv(
+		"aes-256-gcm",
+		deriveKeystoreKey(password, keystore.kdfparams),
+		Buffer.from(keystore.iv, "hex")
+	);
+	decipher.setAuthTag(Buffer.from(keystore.tag, "hex"));
+
+	try {
+		return Buffer.concat([
+			decipher.update(Buffer.from(keystore.ciphertext, "hex")),
+			decipher.final(),
+		]).toString("utf8");
+	} catch {
+		throw new Error("Could not decrypt keystore: wrong password or corrupted file");
+	}
+};
+
+/**
+ * Signs with a key stored in an encrypted keystore file
+ */
+export class KeystoreSigner extends PrivateKeySigner {
+	/**
+	 * @param path - Path to the keystore JSON file
+	 * @param password - The password protecting the keystore
+	 */
+	constructor(path: string, password: string) {
+		const keystore = JSON.parse(readFileSync(path, "utf8")) as Keystore;
+		super(decryptKeystore(keystore, password));
+	}
+}
+
+/**
+ * Request sent to an external signer process, one JSON object on stdin
+ */
+export type ExternalSignerRequest =
+	| { method: "get-public-key" }
+	| { method: "sign"; messageHash: string };
+
+/**
+ * Delegates signing to an external process, e.g. an HSM or KMS bridge
+ * Each request starts the command, writes one JSON request to its stdin and
+ * reads one JSON response from its stdout: `{"publicKey": "..."}`,
+ * `{"signature": "..."}` or `{"error": "..."}`
+ */
+export class ExternalProcessSigner implements Signer {
+	/**
+	 * @param command - The shell command that starts the signer process
+	 */
+	constructor(private readonly command: string) {}
+
+	async getPublicKey(): Promise<string> {
+		const response = await this.request({ method: "get-public-key" });
+		if (typeof response.publicKey !== "string") {
+			throw new Error("External signer did not return a public key");
+		}
+		return response.publicKey;
+	}
+
+	async signMessageHash(messageHash: string): Promise<string> {
+		const response = await this.request({ method: "sign", messageHash });
+		if (typeof response.signature !== "string") {
+			throw new Error("External signer did not return a signature");
+		}
+		return response.signature;
+	}
+
+	private request(
+		request: ExternalSignerRequest
+	): Promise<Record<string, unknown>> {
+		return new Promise((resolve, reject) => {
+			const child = spawn(this.command, {
+				shell: true,
+				stdio: ["pipe", "pipe", "inherit"],
+			});
+
+			let stdout = "";
+			child.stdout.on("data", (chunk) => (stdout += chunk));
+			child.on("error", reject);
+			// A process that exits before reading its request closes the pipe;
+			// the exit code reported on close is the meaningful error
+			child.stdin.on("error", () => {});
+			child.on("close", (code) => {
+				if (code !== 0) {
+					reject(new Error(`External signer exited with code ${code}`));
+					return;
+				}
+
+				let response: Record<string, unknown>;
+				try {
+					response = JSON.parse(stdout);
+				} catch {
+					reject(new Error(`External signer returned invalid JSON: ${stdout}`));
+					return;
+				}
+
+				if (typeof response.error === "string") {
+					reject(new Error(`External signer failed: ${response.error}`));
+					return;
+				}
+				resolve(response);
+			});
+
+			child.stdin.end(`${JSON.stringify(request)}\n`);
+		});
+	}
+}
+
+/**
+ * Checks whether we are running under the test runner
+ */
+const isTestMode = (env: NodeJS.ProcessEnv): boolean => {
+	return env.NODE_ENV === "test" || env.VITEST !== undefined;
+};
+
+/**
+ * Creates the trusted signer configured in the environment
+ * Backends are picked in this order:
+ * - TRUSTED_SIGNER_COMMAND: external signer process
+ * - TRUSTED_SIGNER_KEYSTORE and TRUSTED_SIGNER_KEYSTORE_PASSWORD: keystore file
+ * - TRUSTED_SIGNER_SECRET_KEY and optional TRUSTED_SIGNER_HD_PATH: mnemonic
+ * - TRUSTED_SIGNER_PRIVATE_KEY: raw hex key
+ * In test mode the devnet key is used when nothing is configured; anywhere
+ * else a missing configuration is an error
+ * @param env - The environment to read, defaults to process.env
+ * @returns The configured signer
+ */
+export const createSignerFromEnv = (
+	env: NodeJS.ProcessEnv = process.env
+): Signer => {
+	if (env.TRUSTED_SIGNER_COMMAND) {
+		return new ExternalProcessSigner(env.TRUSTED_SIGNER_COMMAND);
+	}
+
+	if (env.TRUSTED_SIGNER_KEYSTORE) {
+		if (env.TRUSTED_SIGNER_KEYSTORE_PASSWORD === undefined) {
+			throw new Error(
+				"TRUSTED_SIGNER_KEYSTORE is set but TRUSTED_SIGNER_KEYSTORE_PASSWORD is not"
+			);
+		}
+		return new KeystoreSigner(
+			env.TRUSTED_SIGNER_KEYSTORE,
+			env.TRUSTED_SIGNER_KEYSTORE_PASSWORD
+		);
+	}
+
+	if (env.TRUSTED_SIGNER_SECRET_KEY) {
+		return new MnemonicSigner(
+			env.TRUSTED_SIGNER_SECRET_KEY,
+			env.TRUSTED_SIGNER_HD_PATH
+		);
+	}
+
+	if (env.TRUSTED_SIGNER_PRIVATE_KEY) {
+		return new PrivateKeySigner(env.TRUSTED_SIGNER_PRIVATE_KEY);
+	}
+
+	if (isTestMode(env)) {
+		return new PrivateKeySigner(DEVNET_SIGNER_PRIVATE_KEY);
+	}
+
+	throw new Error(
+		"No trusted signer configured: set TRUSTED_SIGNER_COMMAND, TRUSTED_SIGNER_KEYSTORE, TRUSTED_SIGNER_SECRET_KEY or TRUSTED_SIGNER_PRIVATE_KEY"
+	);
+};
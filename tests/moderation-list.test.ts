@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const pool = Cl.contractPrincipal(deployer, "factory");
+
+const readOnly = (fn: string, player: string) =>
+	simnet.callReadOnlyFn(
+		"moderation-list",
+		fn,
+		[Cl.standardPrincipal(player)],
+		deployer
+	).result;
+
+const ban = (player: string, reason: number, sender = deployer) =>
+	simnet.callPublicFn(
+		"moderation-list",
+		"ban",
+		[Cl.standardPrincipal(player), Cl.uint(reason)],
+		sender
+	);
+
+describe("Moderation List Contract Tests", () => {
+	describe("Pools", () => {
+		it("should let the deployer add and remove pools", () => {
+			expect(
+				simnet.callPublicFn("moderation-list", "add-pool", [pool], deployer).result
+			).toBeOk(Cl.bool(true));
+			expect(
+				simnet.callReadOnlyFn("moderation-list", "is-listed-pool", [pool], deployer)
+					.result
+			).toBeBool(true);
+
+			expect(
+				simnet.callPublicFn("moderation-list", "remove-pool", [pool], deployer).result
+			).toBeOk(Cl.bool(true));
+			expect(
+				simnet.callReadOnlyFn("moderation-list", "is-listed-pool", [pool], deployer)
+					.result
+			).toBeBool(false);
+		});
+
+		it("should prevent non-deployer from listing pools", () => {
+			expect(
+				simnet.callPublicFn("moderation-list", "add-pool", [pool], wallet1).result
+			).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+			expect(
+				simnet.callPublicFn("moderation-list", "remove-pool", [pool], wallet1).result
+			).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+		});
+	});
+
+	describe("Bans", () => {
+		it("should let the deployer ban and unban a player", () => {
+			expect(ban(wallet1, 3).result).toBeOk(Cl.bool(true));
+			expect(readOnly("is-banned", wallet1)).toBeBool(true);
+			expect(readOnly("get-ban", wallet1)).toBeSome(
+				Cl.tuple({
+					reason: Cl.uint(3),
+					"banned-by": Cl.standardPrincipal(deployer),
+					"banned-at": Cl.uint(simnet.blockHeight),
+				})
+			);
+
+			const unban = simnet.callPublicFn(
+				"moderation-list",
+				"unban",
+				[Cl.standardPrincipal(wallet1)],
+				deployer
+			);
+			expect(unban.result).toBeOk(Cl.bool(true));
+			expect(readOnly("is-banned", wallet1)).toBeBool(false);
+			expect(readOnly("get-ban", wallet1)).toBeNone();
+		});
+
+		it("should replace the reason of a repeated ban", () => {
+			ban(wallet1, 3);
+			ban(wallet1, 5);
+
+			expect(readOnly("get-ban", wallet1)).toBeSome(
+				Cl.tuple({
+					reason: Cl.uint(5),
+					"banned-by": Cl.standardPrincipal(deployer),
+					"banned-at": Cl.uint(simnet.blockHeight),
+				})
+			);
+		});
+
+		it("should only take bans from the deployer and listed pools", () => {
+			expect(ban(wallet2, 3, wallet1).result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+			expect(readOnly("is-banned", wallet2)).toBeBool(false);
+		});
+
+		it("should only let the deployer lift bans", () => {
+			ban(wallet2, 3);
+
+			const result = simnet.callPublicFn(
+				"moderation-list",
+				"unban",
+				[Cl.standardPrincipal(wallet2)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+			expect(readOnly("is-banned", wallet2)).toBeBool(true);
+		});
+
+		it("should not lift a ban that does not exist", () => {
+			const result = simnet.callPublicFn(
+				"moderation-list",
+				"unban",
+				[Cl.standardPrincipal(wallet2)],
+				deployer
+			);
+			expect(result.result).toBeErr(Cl.uint(2)); // ERR_NOT_BANNED
+		});
+	});
+});
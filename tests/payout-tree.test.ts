@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { hashPayoutLeaf, PayoutTree } from "./helpers/payout-tree";
+
+const accounts = simnet.getAccounts();
+const wallets = [1, 2, 3, 4, 5].map((i) => accounts.get(`wallet_${i}`)!);
+
+describe("Payout Tree", () => {
+	it("should use the leaf as the root of a single payout", () => {
+		const payout = { winner: wallets[0], amount: 1000 };
+		const tree = new PayoutTree([payout]);
+
+		expect(tree.root).toBe(hashPayoutLeaf(payout).toString("hex"));
+		expect(tree.getProof(wallets[0])).toEqual([]);
+	});
+
+	it("should give shorter proofs to an odd node carried up", () => {
+		const tree = new PayoutTree(
+			wallets.map((winner, i) => ({ winner, amount: (i + 1) * 1000 }))
+		);
+
+		expect(tree.getProof(wallets[0])).toHaveLength(3);
+		expect(tree.getProof(wallets[4])).toHaveLength(1);
+	});
+
+	it("should hash leaves like payout-leaf in the pool contracts", () => {
+		const payout = { winner: wallets[0], amount: 1000 };
+
+		const result = simnet.callPrivateFn(
+			"factory",
+			"payout-leaf",
+			[Cl.standardPrincipal(payout.winner), Cl.uint(payout.amount)],
+			wallets[0]
+		);
+		expect(result.result).toStrictEqual(
+			Cl.bufferFromHex(hashPayoutLeaf(payout).toString("hex"))
+		);
+	});
+
+	it("should reject empty and duplicate payouts", () => {
+		expect(() => new PayoutTree([])).toThrow(/at least one payout/);
+		expect(
+			() =>
+				new PayoutTree([
+					{ winner: wallets[0], amount: 1000 },
+					{ winner: wallets[0], amount: 2000 },
+				])
+		).toThrow(/only appear once/);
+	});
+
+	it("should not give proofs for unknown winners", () => {
+		const tree = new PayoutTree([{ winner: wallets[0], amount: 1000 }]);
+
+		expect(() => tree.getProof(wallets[1])).toThrow(/No payout/);
+	});
+});
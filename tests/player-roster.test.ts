@@ -0,0 +1,156 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { SIGNATURE_EXPIRY } from "./helpers/signature-helper";
+import { settlePool } from "./helpers/pool-lifecycle";
+import { kickArgs } from "./helpers/moderation";
+import { POOLS, poolCalls, preparePool } from "./helpers/pool-suite";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+const wallet4 = accounts.get("wallet_4")!;
+
+describe.each(POOLS)("Player Roster in $pool", (variant) => {
+	const { pool, sponsored, tokenArgs, playerStake } = variant;
+	const { call, readOnly, signed } = poolCalls(variant);
+	// Host first, then players in join order
+	const seated = [deployer, wallet1, wallet2, wallet3, wallet4];
+	const joinedAt = new Map<string, number>();
+
+	const getPlayers = (offset: number, limit: number) =>
+		readOnly("get-players", [Cl.uint(offset), Cl.uint(limit)]);
+
+	const getPlayerInfo = (player: string) =>
+		readOnly("get-player-info", [Cl.standardPrincipal(player)]);
+
+	const roster = (players: string[]) =>
+		Cl.list(players.map((player) => Cl.standardPrincipal(player)));
+
+	const playerInfo = (player: string, slot: number, hasClaimed = false) =>
+		Cl.tuple({
+			"joined-at": Cl.uint(joinedAt.get(player)!),
+			"is-sponsor": Cl.bool(sponsored && player === deployer),
+			slot: Cl.uint(slot),
+			"has-claimed": Cl.bool(hasClaimed),
+		});
+
+	const join = (player: string) => {
+		const result = call("join", tokenArgs, player);
+		expect(result.result).toBeOk(Cl.bool(true));
+		joinedAt.set(player, simnet.blockHeight);
+	};
+
+	const kick = (player: string) =>
+		call("kick", kickArgs(player), deployer);
+
+	beforeEach(async () => {
+		await preparePool(variant);
+		seated.forEach(join);
+	});
+
+	it("should list players in join order", () => {
+		expect(getPlayers(0, 20)).toStrictEqual(roster(seated));
+		seated.forEach((player, slot) => {
+			expect(getPlayerInfo(player)).toBeSome(playerInfo(player, slot));
+		});
+	});
+
+	it("should page through the roster", () => {
+		expect(getPlayers(0, 2)).toStrictEqual(roster([deployer, wallet1]));
+		expect(getPlayers(2, 2)).toStrictEqual(roster([wallet2, wallet3]));
+		expect(getPlayers(4, 2)).toStrictEqual(roster([wallet4]));
+		expect(getPlayers(5, 2)).toStrictEqual(Cl.list([]));
+		expect(getPlayers(1, 0)).toStrictEqual(Cl.list([]));
+	});
+
+	it("should move the last player into a slot freed in the middle", () => {
+		expect(kick(wallet2).result).toBeOk(Cl.bool(true));
+
+		expect(getPlayers(0, 20)).toStrictEqual(
+			roster([deployer, wallet1, wallet4, wallet3])
+		);
+		expect(getPlayerInfo(wallet4)).toBeSome(playerInfo(wallet4, 2));
+		expect(getPlayerInfo(wallet2)).toBeNone();
+		expect(getPlayers(2, 20)).toStrictEqual(roster([wallet4, wallet3]));
+	});
+
+	it("should keep the roster compact through leaves and kicks", async () => {
+		const signature = await signed("leave", playerStake, wallet1);
+		const left = call(
+			"leave",
+			[...tokenArgs, Cl.uint(SIGNATURE_EXPIRY), signature],
+			wallet1
+		);
+		expect(left.result).toBeOk(Cl.bool(true));
+		expect(getPlayers(0, 20)).toStrictEqual(
+			roster([deployer, wallet4, wallet2, wallet3])
+		);
+
+		kick(wallet3);
+		kick(wallet4);
+
+		expect(getPlayers(0, 20)).toStrictEqual(roster([deployer, wallet2]));
+		expect(getPlayerInfo(wallet2)).toBeSome(playerInfo(wallet2, 1));
+		expect(readOnly("get-total-players")).toBeUint(2);
+	});
+
+	it("should drop the last player without moving anyone", () => {
+		kick(wallet4);
+
+		expect(getPlayers(0, 20)).toStrictEqual(roster(seated.slice(0, 4)));
+		expect(getPlayerInfo(wallet3)).toBeSome(playerInfo(wallet3, 3));
+	});
+
+	it("should seat a returning player at the end", () => {
+		kick(wallet1);
+		join(wallet1);
+
+		expect(getPlayers(0, 20)).toStrictEqual(
+			roster([deployer, wallet4, wallet2, wallet3, wallet1])
+		);
+		expect(getPlayerInfo(wallet1)).toBeSome(playerInfo(wallet1, 4));
+	});
+
+	it("should report whether a player has claimed", async () => {
+		settlePool(pool);
+		const claimed = call(
+			"claim-reward",
+			[
+				...tokenArgs,
+				Cl.uint(4000000),
+				Cl.uint(SIGNATURE_EXPIRY),
+				await signed("claim", 4000000, wallet3),
+			],
+			wallet3
+		);
+		expect(claimed.result).toBeOk(Cl.bool(true));
+
+		expect(getPlayerInfo(wallet3)).toBeSome(playerInfo(wallet3, 3, true));
+		expect(getPlayerInfo(wallet2)).toBeSome(playerInfo(wallet2, 2));
+	});
+
+	it("should not report players who never joined", () => {
+		expect(getPlayerInfo(accounts.get("wallet_5")!)).toBeNone();
+	});
+
+	it("should take refunded players off the roster", () => {
+		call("cancel-pool", [], deployer);
+		// Players of a sponsored pool put nothing in and keep their seats
+		const refunded = sponsored ? [deployer] : [deployer, wallet2];
+		for (const player of refunded) {
+			expect(call("claim-refund", tokenArgs, player).result).toBeOk(
+				Cl.bool(true)
+			);
+		}
+
+		expect(getPlayers(0, 20)).toStrictEqual(
+			roster(
+				sponsored
+					? [wallet4, wallet1, wallet2, wallet3]
+					: [wallet4, wallet1, wallet3]
+			)
+		);
+	});
+});
@@ -0,0 +1,216 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { BanScope, kickArgs } from "./helpers/moderation";
+import { POOLS, poolCalls, preparePool } from "./helpers/pool-suite";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const ROLE_MODERATOR = 1;
+const REASON_CHEATING = 4;
+
+describe.each(POOLS)("Bans in $pool", (variant) => {
+	const { pool, errors } = variant;
+	const { contract, call, readOnly, join } = poolCalls(variant);
+	// Another pool on the moderation list, which a global ban should reach
+	const otherPool = pool === "factory" ? "sponsored-pool" : "factory";
+
+	const readForPlayer = (fn: string, player: string) =>
+		readOnly(fn, [Cl.standardPrincipal(player)]);
+
+	const kick = (player: string, ban: number, sender = deployer) =>
+		call("kick", kickArgs(player, REASON_CHEATING, ban), sender);
+
+	const unban = (player: string, sender = deployer) =>
+		call("unban", [Cl.standardPrincipal(player)], sender);
+
+	const listPool = () =>
+		simnet.callPublicFn(
+			"moderation-list",
+			"add-pool",
+			[Cl.principal(contract)],
+			deployer
+		);
+
+	const poolBan = () =>
+		Cl.tuple({
+			reason: Cl.uint(REASON_CHEATING),
+			"banned-at": Cl.uint(simnet.blockHeight),
+		});
+
+	beforeEach(async () => {
+		await preparePool(variant);
+		join(deployer);
+		join(wallet1);
+		join(wallet2);
+	});
+
+	describe("Kick Reasons", () => {
+		it("should record and let a kicked player rejoin without a ban", () => {
+			expect(kick(wallet1, BanScope.None).result).toBeOk(Cl.bool(true));
+
+			expect(readForPlayer("get-kick-record", wallet1)).toBeSome(
+				Cl.tuple({
+					reason: Cl.uint(REASON_CHEATING),
+					ban: Cl.uint(BanScope.None),
+					"kicked-by": Cl.standardPrincipal(deployer),
+					"kicked-at": Cl.uint(simnet.blockHeight),
+				})
+			);
+			expect(join(wallet1).result).toBeOk(Cl.bool(true));
+			// The record outlives the rejoin
+			expect(readForPlayer("get-kick-record", wallet1)).toBeSome(expect.anything());
+		});
+
+		it("should not record anything for players never kicked", () => {
+			expect(readForPlayer("get-kick-record", wallet2)).toBeNone();
+			expect(readForPlayer("get-ban-status", wallet2)).toStrictEqual(
+				Cl.tuple({
+					banned: Cl.bool(false),
+					"pool-ban": Cl.none(),
+					"global-ban": Cl.none(),
+				})
+			);
+		});
+
+		it("should reject unknown ban scopes", () => {
+			expect(kick(wallet1, 3).result).toBeErr(Cl.uint(errors.invalidBan));
+			expect(readForPlayer("has-player-joined", wallet1)).toBeBool(true);
+		});
+	});
+
+	describe("Pool Bans", () => {
+		beforeEach(() => {
+			expect(kick(wallet1, BanScope.Pool).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should keep a banned player from rejoining", () => {
+			expect(readForPlayer("get-ban-status", wallet1)).toStrictEqual(
+				Cl.tuple({
+					banned: Cl.bool(true),
+					"pool-ban": Cl.some(poolBan()),
+					"global-ban": Cl.none(),
+				})
+			);
+
+			expect(join(wallet1).result).toBeErr(Cl.uint(errors.banned));
+			expect(readForPlayer("has-player-joined", wallet1)).toBeBool(false);
+		});
+
+		it("should not reach other pools", () => {
+			simnet.callPublicFn(otherPool, "join", [], deployer);
+
+			expect(simnet.callPublicFn(otherPool, "join", [], wallet1).result).toBeOk(
+				Cl.bool(true)
+			);
+		});
+
+		it("should let the player rejoin once unbanned", () => {
+			expect(unban(wallet1).result).toBeOk(Cl.bool(true));
+
+			expect(readForPlayer("get-ban-status", wallet1)).toStrictEqual(
+				Cl.tuple({
+					banned: Cl.bool(false),
+					"pool-ban": Cl.none(),
+					"global-ban": Cl.none(),
+				})
+			);
+			expect(join(wallet1).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should let moderators ban and unban", () => {
+			simnet.callPublicFn(
+				pool,
+				"grant-role",
+				[Cl.uint(ROLE_MODERATOR), Cl.standardPrincipal(wallet3)],
+				deployer
+			);
+
+			expect(kick(wallet2, BanScope.Pool, wallet3).result).toBeOk(Cl.bool(true));
+			expect(join(wallet2).result).toBeErr(Cl.uint(errors.banned));
+			expect(unban(wallet2, wallet3).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should only let the host or a moderator unban", () => {
+			expect(unban(wallet1, wallet2).result).toBeErr(Cl.uint(errors.unauthorized));
+			expect(join(wallet1).result).toBeErr(Cl.uint(errors.banned));
+		});
+
+		it("should not unban a player who is not banned", () => {
+			expect(unban(wallet2).result).toBeErr(Cl.uint(errors.notBanned));
+		});
+	});
+
+	describe("Global Bans", () => {
+		it("should need the pool on the moderation list", () => {
+			expect(kick(wallet1, BanScope.Global).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(readForPlayer("has-player-joined", wallet1)).toBeBool(true);
+			expect(readForPlayer("get-kick-record", wallet1)).toBeNone();
+		});
+
+		it("should keep the player out of every pool sharing the list", () => {
+			listPool();
+			expect(kick(wallet1, BanScope.Global).result).toBeOk(Cl.bool(true));
+
+			expect(readForPlayer("get-ban-status", wallet1)).toStrictEqual(
+				Cl.tuple({
+					banned: Cl.bool(true),
+					"pool-ban": Cl.none(),
+					"global-ban": Cl.some(
+						Cl.tuple({
+							reason: Cl.uint(REASON_CHEATING),
+							"banned-by": Cl.principal(contract),
+							"banned-at": Cl.uint(simnet.blockHeight),
+						})
+					),
+				})
+			);
+			expect(join(wallet1).result).toBeErr(Cl.uint(errors.banned));
+
+			simnet.callPublicFn(otherPool, "join", [], deployer);
+			const otherJoin = simnet.callPublicFn(otherPool, "join", [], wallet1);
+			const { errors: otherErrors } = POOLS.find(
+				(other) => other.pool === otherPool
+			)!;
+			expect(otherJoin.result).toBeErr(Cl.uint(otherErrors.banned));
+			expect(
+				simnet.callReadOnlyFn(
+					otherPool,
+					"has-player-joined",
+					[Cl.standardPrincipal(wallet1)],
+					deployer
+				).result
+			).toBeBool(false);
+		});
+
+		it("should let the player back once the platform lifts the ban", () => {
+			listPool();
+			kick(wallet1, BanScope.Global);
+
+			// A pool can only lift its own bans
+			expect(unban(wallet1).result).toBeErr(Cl.uint(errors.notBanned));
+			simnet.callPublicFn(
+				"moderation-list",
+				"unban",
+				[Cl.standardPrincipal(wallet1)],
+				deployer
+			);
+
+			expect(join(wallet1).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should stop banning for all once the pool leaves the list", () => {
+			listPool();
+			simnet.callPublicFn("moderation-list", "remove-pool", [Cl.principal(contract)], deployer);
+
+			expect(kick(wallet1, BanScope.Global).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+		});
+	});
+});
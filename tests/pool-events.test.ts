@@ -0,0 +1,325 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl, serializeCV } from "@stacks/transactions";
+import { registerTrustedSigner, SIGNATURE_EXPIRY } from "./helpers/signature-helper";
+import { PayoutTree } from "./helpers/payout-tree";
+import { lockPool, settlePool } from "./helpers/pool-lifecycle";
+import {
+	ApiContractLogEvent,
+	decodePoolEvent,
+	decodePoolEvents,
+	PoolEvent,
+	SimnetPrintEvent,
+} from "./helpers/pool-events";
+import { BanScope, kickArgs } from "./helpers/moderation";
+import { POOLS, poolCalls, preparePool } from "./helpers/pool-suite";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+type CallResult = ReturnType<typeof simnet.callPublicFn>;
+
+/**
+ * Decodes the pool events of a call, checking they were printed in the
+ * call's block
+ */
+const poolEvents = (result: CallResult) => {
+	const events = decodePoolEvents(result.events);
+	for (const event of events) {
+		expect(event.block).toBe(simnet.blockHeight);
+	}
+	return events.map(({ block, ...event }) => event);
+};
+
+describe.each(POOLS)("Pool Events in $pool", (variant) => {
+	const { pool, tokenArgs, stake, playerStake } = variant;
+	const { contract, call, signed, join } = poolCalls(variant);
+
+	const claim = async (winner: string, amount: number) =>
+		call(
+			"claim-reward",
+			[
+				...tokenArgs,
+				Cl.uint(amount),
+				Cl.uint(SIGNATURE_EXPIRY),
+				await signed("claim", amount, winner),
+			],
+			winner
+		);
+
+	beforeEach(async () => {
+		await preparePool(variant);
+	});
+
+	it("should print join events", () => {
+		expect(poolEvents(join(deployer))).toStrictEqual([
+			{ contract, event: "join", player: deployer, amount: BigInt(stake) },
+		]);
+		expect(poolEvents(join(wallet1))).toStrictEqual([
+			{ contract, event: "join", player: wallet1, amount: BigInt(playerStake) },
+		]);
+	});
+
+	it("should print leave events", async () => {
+		join(deployer);
+		join(wallet1);
+
+		const signature = await signed("leave", playerStake, wallet1);
+		const result = call(
+			"leave",
+			[...tokenArgs, Cl.uint(SIGNATURE_EXPIRY), signature],
+			wallet1
+		);
+		expect(poolEvents(result)).toStrictEqual([
+			{ contract, event: "leave", player: wallet1, amount: BigInt(playerStake) },
+		]);
+	});
+
+	it("should print kick and unban events", () => {
+		join(deployer);
+		join(wallet1);
+
+		const result = call("kick", kickArgs(wallet1, 7, BanScope.Pool), deployer);
+		expect(poolEvents(result)).toStrictEqual([
+			{
+				contract,
+				event: "kick",
+				player: wallet1,
+				amount: BigInt(playerStake),
+				reason: 7,
+				ban: BanScope.Pool,
+			},
+		]);
+		expect(
+			poolEvents(call("unban", [Cl.standardPrincipal(wallet1)], deployer))
+		).toStrictEqual([{ contract, event: "unban", player: wallet1, amount: 0n }]);
+	});
+
+	it("should print lifecycle events", () => {
+		join(deployer);
+		join(wallet1);
+
+		expect(poolEvents(lockPool(pool))).toStrictEqual([
+			{ contract, event: "lock", player: deployer, amount: 0n },
+		]);
+		expect(poolEvents(call("settle-pool", [], deployer))).toStrictEqual([
+			{ contract, event: "settle", player: deployer, amount: 0n },
+		]);
+	});
+
+	it("should print cancel and refund events", () => {
+		join(deployer);
+		join(wallet1);
+
+		expect(poolEvents(call("cancel-pool", [], deployer))).toStrictEqual([
+			{ contract, event: "cancel", player: deployer, amount: 0n },
+		]);
+		expect(
+			poolEvents(call("claim-refund", tokenArgs, deployer))
+		).toStrictEqual([
+			{ contract, event: "refund", player: deployer, amount: BigInt(stake) },
+		]);
+	});
+
+	it("should print claim events with the fee", async () => {
+		join(deployer);
+		join(wallet1);
+		settlePool(pool);
+
+		expect(poolEvents(await claim(wallet1, 4000000))).toStrictEqual([
+			{
+				contract,
+				event: "claim",
+				player: wallet1,
+				amount: 4000000n,
+				fee: 80000n,
+			},
+		]);
+	});
+
+	it("should print payout root and proof claim events", async () => {
+		join(deployer);
+		join(wallet1);
+		lockPool(pool);
+		const tree = new PayoutTree([
+			{ winner: wallet1, amount: 3000000 },
+			{ winner: wallet2, amount: 1000000 },
+		]);
+
+		const submitted = call(
+			"submit-payout-root",
+			[
+				Cl.bufferFromHex(tree.root),
+				Cl.uint(SIGNATURE_EXPIRY),
+				Cl.bufferFromHex(await tree.sign(contract, SIGNATURE_EXPIRY)),
+			],
+			wallet3
+		);
+		expect(poolEvents(submitted)).toStrictEqual([
+			{
+				contract,
+				event: "payout-root",
+				player: wallet3,
+				amount: 0n,
+				root: tree.root,
+			},
+		]);
+
+		const claimed = call(
+			"claim-with-proof",
+			[
+				...tokenArgs,
+				Cl.uint(3000000),
+				Cl.list(tree.getProof(wallet1).map((node) => Cl.bufferFromHex(node))),
+			],
+			wallet1
+		);
+		expect(poolEvents(claimed)).toStrictEqual([
+			{
+				contract,
+				event: "claim",
+				player: wallet1,
+				amount: 3000000n,
+				fee: 60000n,
+			},
+		]);
+	});
+
+	it("should print fee events", async () => {
+		expect(poolEvents(call("set-fee-bps", [Cl.uint(500)], deployer))).toStrictEqual([
+			{ contract, event: "fee-bps", player: deployer, amount: 500n },
+		]);
+		expect(
+			poolEvents(call("set-fee-wallet", [Cl.standardPrincipal(wallet3)], deployer))
+		).toStrictEqual([
+			{ contract, event: "fee-wallet", player: wallet3, amount: 0n },
+		]);
+
+		join(deployer);
+		join(wallet1);
+		settlePool(pool);
+		await claim(wallet1, 4000000);
+
+		expect(poolEvents(call("sweep-fees", tokenArgs, wallet2))).toStrictEqual([
+			{ contract, event: "fee-sweep", player: wallet3, amount: 200000n },
+		]);
+	});
+
+	it("should print pause events", () => {
+		expect(poolEvents(call("pause", [], deployer))).toStrictEqual([
+			{ contract, event: "pause", player: deployer, amount: 0n },
+		]);
+		expect(poolEvents(call("unpause", [], deployer))).toStrictEqual([
+			{ contract, event: "unpause", player: deployer, amount: 0n },
+		]);
+	});
+
+	it("should print ownership and role events", () => {
+		expect(
+			poolEvents(call("transfer-ownership", [Cl.standardPrincipal(wallet1)], deployer))
+		).toStrictEqual([
+			{ contract, event: "owner-proposed", player: wallet1, amount: 0n },
+		]);
+		expect(poolEvents(call("accept-ownership", [], wallet1))).toStrictEqual([
+			{ contract, event: "owner-accepted", player: wallet1, amount: 0n },
+		]);
+		expect(
+			poolEvents(call("set-host", [Cl.standardPrincipal(wallet2)], wallet1))
+		).toStrictEqual([{ contract, event: "host", player: wallet2, amount: 0n }]);
+		expect(
+			poolEvents(
+				call("grant-role", [Cl.uint(1), Cl.standardPrincipal(wallet3)], wallet1)
+			)
+		).toStrictEqual([
+			{ contract, event: "role-granted", player: wallet3, amount: 1n },
+		]);
+		expect(
+			poolEvents(
+				call("revoke-role", [Cl.uint(1), Cl.standardPrincipal(wallet3)], wallet1)
+			)
+		).toStrictEqual([
+			{ contract, event: "role-revoked", player: wallet3, amount: 1n },
+		]);
+	});
+
+	it("should not print events for failed calls", () => {
+		const result = call("kick", kickArgs(wallet1), deployer);
+
+		expect(result.result).toBeErr(expect.anything());
+		expect(decodePoolEvents(result.events)).toStrictEqual([]);
+	});
+});
+
+describe("Decode Pool Event", () => {
+	beforeEach(async () => {
+		await registerTrustedSigner();
+	});
+
+	const toApiEvent = (event: SimnetPrintEvent): ApiContractLogEvent => ({
+		event_type: "smart_contract_log",
+		contract_log: {
+			contract_id: event.data.contract_identifier!,
+			topic: "print",
+			value: {
+				hex: `0x${Buffer.from(serializeCV(event.data.value!)).toString("hex")}`,
+			},
+		},
+	});
+
+	it("should decode the same event from the Stacks API", () => {
+		const result = simnet.callPublicFn("factory", "join", [], deployer);
+		const printEvent = result.events.find((e) => e.event === "print_event")!;
+
+		expect(decodePoolEvent(toApiEvent(printEvent))).toStrictEqual(
+			decodePoolEvent(printEvent)
+		);
+		expect(decodePoolEvent(printEvent)).toMatchObject({
+			event: "join",
+			contract: `${deployer}.factory`,
+		});
+	});
+
+	it("should decode the token of an FT pool initialization", () => {
+		const token = Cl.contractPrincipal(deployer, "test-token");
+		const result = simnet.callPublicFn(
+			"sponsored-ft-pool",
+			"initialize",
+			[token],
+			deployer
+		);
+
+		const events: PoolEvent[] = decodePoolEvents(result.events);
+		expect(events).toStrictEqual([
+			{
+				contract: `${deployer}.sponsored-ft-pool`,
+				event: "initialize",
+				player: deployer,
+				amount: 0n,
+				block: simnet.blockHeight,
+				token: `${deployer}.test-token`,
+			},
+		]);
+	});
+
+	it("should skip events that are not pool events", () => {
+		const result = simnet.callPublicFn("factory", "join", [], deployer);
+		const transfer = result.events.find((e) => e.event === "stx_transfer_event")!;
+
+		expect(decodePoolEvent(transfer)).toBeUndefined();
+		expect(
+			decodePoolEvent({
+				event: "print_event",
+				data: {
+					contract_identifier: `${deployer}.factory`,
+					topic: "print",
+					value: Cl.tuple({ event: Cl.stringAscii("something-else") }),
+				},
+			})
+		).toBeUndefined();
+		expect(
+			decodePoolEvent({ event_type: "stx_asset", contract_log: undefined })
+		).toBeUndefined();
+	});
+});
@@ -0,0 +1,192 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import {
+	addPlanEntries,
+	getPlanDeployer,
+	POOL_TEMPLATE_PATH,
+	PoolParams,
+	renderClarinetEntry,
+	renderPlanEntries,
+	renderPoolContract,
+	renderSbtcPoolContract,
+	SBTC_POOLS,
+	SBTC_TOKEN,
+} from "../scripts/pool-generator";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const template = readFileSync(POOL_TEMPLATE_PATH, "utf8");
+
+const params: PoolParams = {
+	name: "lexi-pool",
+	entryFee: 1000000,
+	host: wallet1,
+	gameType: "lexi-wars",
+};
+
+describe("Pool Generator", () => {
+	describe("Render Pool Contract", () => {
+		it("should set the template constants", () => {
+			const source = renderPoolContract(template, {
+				...params,
+				feeWallet: wallet2,
+			});
+
+			expect(source).toContain("(define-constant ENTRY_FEE u1000000)");
+			expect(source).toContain(`(define-constant INITIAL_HOST '${wallet1})`);
+			expect(source).toContain(
+				`(define-constant STACKS_WARS_FEE_WALLET '${wallet2})`
+			);
+		});
+
+		it("should set the player limits", () => {
+			const source = renderPoolContract(template, {
+				...params,
+				minPlayers: 4,
+				maxPlayers: 4,
+			});
+
+			expect(source).toContain("(define-constant MIN_PLAYERS u4)");
+			expect(source).toContain("(define-constant MAX_PLAYERS u4)");
+		});
+
+		it("should deploy a working pool instance", () => {
+			const source = renderPoolContract(template, params);
+			const deploy = simnet.deployContract(
+				params.name,
+				source,
+				{ clarityVersion: 3 },
+				deployer
+			);
+			expect(deploy.result).toBeBool(true);
+
+			// The deploying key owns the instance and the host runs it
+			const owner = simnet.callReadOnlyFn(params.name, "get-owner", [], deployer);
+			expect(owner.result).toBePrincipal(deployer);
+			const host = simnet.callReadOnlyFn(params.name, "get-host", [], deployer);
+			expect(host.result).toBePrincipal(wallet1);
+
+			// The host opens the pool and pays the custom entry fee
+			const join = simnet.callPublicFn(params.name, "join", [], wallet1);
+			expect(join.result).toBeOk(Cl.bool(true));
+			expect(join.events).toContainEqual({
+				event: "stx_transfer_event",
+				data: expect.objectContaining({
+					amount: "1000000",
+					sender: wallet1,
+					recipient: `${deployer}.${params.name}`,
+				}),
+			});
+		});
+
+		it("should reject invalid parameters", () => {
+			expect(() =>
+				renderPoolContract(template, { ...params, name: "1-pool" })
+			).toThrow(/Invalid contract name/);
+			expect(() =>
+				renderPoolContract(template, { ...params, entryFee: 0 })
+			).toThrow(/Entry fee/);
+			expect(() =>
+				renderPoolContract(template, { ...params, host: "not-an-address" })
+			).toThrow(/Invalid host/);
+			expect(() =>
+				renderPoolContract(template, { ...params, gameType: 'a"b' })
+			).toThrow(/Invalid game type/);
+			expect(() =>
+				renderPoolContract(template, { ...params, maxPlayers: 0 })
+			).toThrow(/Maximum players/);
+			expect(() =>
+				renderPoolContract(template, { ...params, minPlayers: 5, maxPlayers: 4 })
+			).toThrow(/cannot exceed/);
+		});
+
+		it("should reject a template without the expected constants", () => {
+			expect(() => renderPoolContract(";; empty", params)).toThrow(
+				/no INITIAL_HOST constant/
+			);
+		});
+	});
+
+	describe("sBTC Pools", () => {
+		it.each(SBTC_POOLS)("should keep $path in sync with $template", ({ template, path }) => {
+			expect(readFileSync(path, "utf8")).toBe(
+				renderSbtcPoolContract(readFileSync(template, "utf8"), template)
+			);
+		});
+
+		it("should move funds with the sBTC token", () => {
+			const source = renderSbtcPoolContract(template, POOL_TEMPLATE_PATH);
+
+			expect(source).toContain(
+				`(contract-call? '${SBTC_TOKEN} transfer ENTRY_FEE tx-sender (as-contract tx-sender) none)`
+			);
+			expect(source).toContain(
+				`(unwrap-panic (contract-call? '${SBTC_TOKEN} get-balance (as-contract tx-sender)))`
+			);
+			expect(source).toContain(";; summary: Normal pool using sBTC, generated from");
+			expect(source).not.toMatch(/stx-|\bSTX\b/);
+		});
+
+		it("should reject a template moving STX in a way it can't mirror", () => {
+			expect(() =>
+				renderSbtcPoolContract("(stx-burn? u1 tx-sender)", POOL_TEMPLATE_PATH)
+			).toThrow(/can't mirror/);
+		});
+	});
+
+	describe("Deployment Entries", () => {
+		it("should render the Clarinet.toml entry", () => {
+			expect(renderClarinetEntry(params)).toBe(
+				"[contracts.lexi-pool]\npath = 'contracts/pools/lexi-pool.clar'\nclarity_version = 3\nepoch = 3.0\n"
+			);
+		});
+
+		it("should append publish, registry, moderation and referral transactions to the last batch", () => {
+			const plan = readFileSync("deployments/default.testnet-plan.yaml", "utf8");
+			const planDeployer = getPlanDeployer(plan);
+			const source = renderPoolContract(template, params);
+
+			const updated = addPlanEntries(
+				plan,
+				renderPlanEntries(params, planDeployer, source)
+			);
+
+			expect(updated.startsWith(plan.slice(0, plan.lastIndexOf("      epoch:"))))
+				.toBe(true);
+			expect(updated).toContain(
+				"            contract-name: lexi-pool\n"
+			);
+			expect(updated).toContain(
+				`            contract-id: ${planDeployer}.pool-registry\n            expected-sender: ${planDeployer}\n            method: register-pool\n`
+			);
+			expect(updated).toContain(`              - "'${planDeployer}.lexi-pool"\n`);
+			expect(updated).toContain(
+				`            contract-id: ${planDeployer}.moderation-list\n            expected-sender: ${planDeployer}\n            method: add-pool\n`
+			);
+			expect(updated).toContain(
+				`            contract-id: ${planDeployer}.referrals\n            expected-sender: ${planDeployer}\n            method: add-pool\n`
+			);
+			expect(updated).toContain('              - "\\"lexi-wars\\""\n');
+			expect(updated.trimEnd().endsWith('epoch: "3.0"')).toBe(true);
+		});
+
+		it("should register the pool with the planned parameters", () => {
+			const register = simnet.callPublicFn(
+				"pool-registry",
+				"register-pool",
+				[
+					Cl.contractPrincipal(deployer, params.name),
+					Cl.uint(params.entryFee),
+					Cl.standardPrincipal(params.host),
+					Cl.stringAscii(params.gameType),
+				],
+				deployer
+			);
+			expect(register.result).toBeOk(Cl.uint(0));
+		});
+	});
+});
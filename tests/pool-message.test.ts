@@ -0,0 +1,305 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import {
+	CHAIN_ID_TESTNET,
+	generateInvalidSignature,
+	generateSignature,
+	getTrustedPublicKey,
+	hashPayoutRootMessage,
+	hashPoolMessage,
+	keyring,
+	MAINNET_POOL_DOMAIN,
+	PoolDomain,
+	PoolMessage,
+	recoverPoolSigner,
+	registerTrustedSigner,
+	TESTNET_POOL_DOMAIN,
+	verifyPoolSignature,
+} from "./helpers/signature-helper";
+import { settlePool } from "./helpers/pool-lifecycle";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+
+// Hashes computed once and pinned, so a change to the message layout on
+// either side shows up as a failing vector
+const GOLDEN_VECTORS: {
+	message: PoolMessage;
+	domain: PoolDomain;
+	hash: string;
+}[] = [
+	{
+		message: {
+			action: "leave",
+			amount: 5000000,
+			winner: "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5",
+			contract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.factory",
+			nonce: 0,
+			expiry: 1000,
+		},
+		domain: TESTNET_POOL_DOMAIN,
+		hash: "ae04a6a9e06258c790c7032f691e645b7f118743536a81f4d4935d4b8d649c3d",
+	},
+	{
+		message: {
+			action: "claim",
+			amount: 10000000,
+			winner: "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5",
+			contract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.sponsored-pool",
+			nonce: 3,
+			expiry: 250,
+		},
+		domain: TESTNET_POOL_DOMAIN,
+		hash: "3c9b67b98bdbe88db315566078140002b68e5234957bab2b208db7140ee74d18",
+	},
+	{
+		message: {
+			action: "sponsor-withdraw",
+			amount: 50000000,
+			winner: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM",
+			contract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.sponsored-ft-pool",
+			nonce: 0,
+			expiry: 42,
+		},
+		domain: TESTNET_POOL_DOMAIN,
+		hash: "fd3e30ba84f91d3cddf3b55a4bcf5207000a325d61de4db3f80ed8e7417671c0",
+	},
+	{
+		message: {
+			action: "leave",
+			amount: 5000000,
+			winner: "ST1SJ3DTE5DN7X54YDH5D64R3BCB6A2AG2ZQ8YPD5",
+			contract: "ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.factory",
+			nonce: 0,
+			expiry: 1000,
+		},
+		domain: MAINNET_POOL_DOMAIN,
+		hash: "c73a4a4a38f459faf61f4bc6f514496f702dabdd19dd85a3f421bb6dbef809b9",
+	},
+];
+
+/**
+ * Hashes a message as SIP-018 structured data with `to-consensus-buff?` and
+ * `sha256` in simnet
+ */
+const hashInSimnet = (message: PoolMessage, domain: PoolDomain) => {
+	const tuple = `{action: "${message.action}", amount: u${message.amount}, winner: '${message.winner}, contract: '${message.contract}, nonce: u${message.nonce}, expiry: u${message.expiry}}`;
+	const domainTuple = `{name: "${domain.name}", version: "${domain.version}", chain-id: u${domain.chainId}}`;
+	const hash = (value: string) =>
+		`(sha256 (unwrap-panic (to-consensus-buff? ${value})))`;
+	return simnet.execute(
+		`(sha256 (concat 0x534950303138 (concat ${hash(domainTuple)} ${hash(tuple)})))`
+	).result;
+};
+
+const claimMessage = (): PoolMessage => ({
+	action: "claim",
+	amount: 10000000,
+	winner: wallet1,
+	contract: `${deployer}.factory`,
+	nonce: 0,
+	expiry: 1000,
+});
+
+describe("Pool Message Tests", () => {
+	describe("Hash Pool Message", () => {
+		it.each(GOLDEN_VECTORS)(
+			"should match the golden hash for $message.action on chain $domain.chainId",
+			({ message, domain, hash }) => {
+				expect(hashPoolMessage(message, domain)).toBe(hash);
+			}
+		);
+
+		it.each(GOLDEN_VECTORS)(
+			"should match to-consensus-buff? and sha256 for $message.action on chain $domain.chainId",
+			({ message, domain, hash }) => {
+				expect(hashInSimnet(message, domain)).toStrictEqual(
+					Cl.bufferFromHex(hash)
+				);
+			}
+		);
+
+		it.each([
+			"factory",
+			"sponsored-pool",
+			"sponsored-ft-pool",
+			"sbtc-pool",
+			"sponsored-sbtc-pool",
+		])(
+			"should match construct-message-hash in %s",
+			(contract) => {
+				const message: PoolMessage = {
+					action: "claim",
+					amount: 10000000,
+					winner: wallet1,
+					contract: `${deployer}.${contract}`,
+					nonce: 0,
+					expiry: 1000,
+				};
+
+				const result = simnet.callPrivateFn(
+					contract,
+					"construct-message-hash",
+					[Cl.stringAscii("claim"), Cl.uint(10000000), Cl.uint(1000)],
+					wallet1
+				);
+				expect(result.result).toBeOk(
+					Cl.bufferFromHex(hashPoolMessage(message))
+				);
+			}
+		);
+	});
+
+	describe("Hash Payout Root Message", () => {
+		it.each([
+			"factory",
+			"sponsored-pool",
+			"sponsored-ft-pool",
+			"sbtc-pool",
+			"sponsored-sbtc-pool",
+		])(
+			"should match construct-root-hash in %s",
+			(contract) => {
+				const root = "ab".repeat(32);
+
+				const result = simnet.callPrivateFn(
+					contract,
+					"construct-root-hash",
+					[Cl.bufferFromHex(root), Cl.uint(1000)],
+					wallet1
+				);
+				expect(result.result).toBeOk(
+					Cl.bufferFromHex(
+						hashPayoutRootMessage({
+							root,
+							contract: `${deployer}.${contract}`,
+							expiry: 1000,
+						})
+					)
+				);
+			}
+		);
+	});
+
+	describe("Domain Separation", () => {
+		it("should expose the testnet domain in simnet", () => {
+			const result = simnet.callReadOnlyFn(
+				"factory",
+				"get-message-domain",
+				[],
+				deployer
+			);
+			expect(result.result).toBeTuple({
+				name: Cl.stringAscii("stacks-wars"),
+				version: Cl.stringAscii("1"),
+				"chain-id": Cl.uint(CHAIN_ID_TESTNET),
+			});
+		});
+
+		it("should hash the same message differently per chain", () => {
+			const message = claimMessage();
+
+			expect(hashPoolMessage(message, MAINNET_POOL_DOMAIN)).not.toBe(
+				hashPoolMessage(message, TESTNET_POOL_DOMAIN)
+			);
+		});
+
+		it("should not verify a signature under another chain's domain", async () => {
+			const message = claimMessage();
+			const signature = await generateSignature(message);
+
+			expect(
+				verifyPoolSignature(
+					message,
+					signature,
+					await getTrustedPublicKey(),
+					MAINNET_POOL_DOMAIN
+				)
+			).toBe(false);
+		});
+
+		it("should reject a mainnet signature on a testnet pool", async () => {
+			await registerTrustedSigner();
+			simnet.callPublicFn("factory", "join", [], deployer);
+			simnet.callPublicFn("factory", "join", [], wallet1);
+			settlePool("factory");
+			const message = { ...claimMessage(), amount: 4000000 };
+
+			const claim = (signature: string) =>
+				simnet.callPublicFn(
+					"factory",
+					"claim-reward",
+					[Cl.uint(4000000), Cl.uint(1000), Cl.bufferFromHex(signature)],
+					wallet1
+				).result;
+
+			const mainnetSignature = await generateSignature(
+				message,
+				undefined,
+				MAINNET_POOL_DOMAIN
+			);
+			expect(claim(mainnetSignature)).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+
+			const testnetSignature = await generateSignature(message);
+			expect(claim(testnetSignature)).toBeOk(Cl.bool(true));
+		});
+	});
+
+	describe("Verify Pool Signature", () => {
+		it("should accept a signature from the given key", async () => {
+			const message = claimMessage();
+			const signature = await generateSignature(message);
+
+			expect(
+				verifyPoolSignature(message, signature, await getTrustedPublicKey())
+			).toBe(true);
+		});
+
+		it("should reject a signature from another key", async () => {
+			const message = claimMessage();
+			const publicKey = keyring.generate("other");
+			const signature = await generateSignature(message);
+
+			expect(verifyPoolSignature(message, signature, publicKey)).toBe(false);
+		});
+
+		it("should reject a signature for a different message", async () => {
+			const message = claimMessage();
+			const signature = await generateSignature(message);
+
+			expect(
+				verifyPoolSignature(
+					{ ...message, amount: message.amount + 1 },
+					signature,
+					await getTrustedPublicKey()
+				)
+			).toBe(false);
+		});
+
+		it("should reject malformed signatures", async () => {
+			const publicKey = await getTrustedPublicKey();
+
+			expect(
+				verifyPoolSignature(claimMessage(), generateInvalidSignature(), publicKey)
+			).toBe(false);
+			expect(verifyPoolSignature(claimMessage(), "abcd", publicKey)).toBe(false);
+		});
+	});
+
+	describe("Recover Pool Signer", () => {
+		it("should recover the key that signed a message", async () => {
+			const message = claimMessage();
+			const publicKey = keyring.generate("recovered");
+			const signature = await generateSignature(message, "recovered");
+
+			expect(recoverPoolSigner(message, signature)).toBe(publicKey);
+		});
+
+		it("should return undefined for a malformed signature", () => {
+			expect(
+				recoverPoolSigner(claimMessage(), generateInvalidSignature())
+			).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { SIGNATURE_EXPIRY } from "./helpers/signature-helper";
+import { PayoutTree } from "./helpers/payout-tree";
+import { lockPool } from "./helpers/pool-lifecycle";
+import { kickArgs } from "./helpers/moderation";
+import { POOLS, poolCalls, preparePool } from "./helpers/pool-suite";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+describe.each(POOLS)("Pause in $pool", (variant) => {
+	const { pool, tokenArgs, playerStake, errors } = variant;
+	const { contract, call, readOnly, signed, join } = poolCalls(variant);
+
+	const leave = async (player: string) =>
+		call(
+			"leave",
+			[
+				...tokenArgs,
+				Cl.uint(SIGNATURE_EXPIRY),
+				await signed("leave", playerStake, player),
+			],
+			player
+		);
+
+	const kick = (player: string) =>
+		call("kick", kickArgs(player), deployer);
+
+	const claimReward = async (winner: string, amount: number) =>
+		call(
+			"claim-reward",
+			[
+				...tokenArgs,
+				Cl.uint(amount),
+				Cl.uint(SIGNATURE_EXPIRY),
+				await signed("claim", amount, winner),
+			],
+			winner
+		);
+
+	const pause = () => call("pause", [], deployer);
+	const unpause = () => call("unpause", [], deployer);
+
+	beforeEach(async () => {
+		await preparePool(variant);
+		join(deployer);
+		join(wallet1);
+		join(wallet2);
+	});
+
+	describe("Pause Control", () => {
+		it("should let the owner pause and unpause", () => {
+			expect(readOnly("is-paused")).toBeBool(false);
+
+			expect(pause().result).toBeOk(Cl.bool(true));
+			expect(readOnly("is-paused")).toBeBool(true);
+
+			expect(unpause().result).toBeOk(Cl.bool(true));
+			expect(readOnly("is-paused")).toBeBool(false);
+		});
+
+		it("should only let the owner pause and unpause", () => {
+			expect(call("pause", [], wallet1).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+
+			pause();
+			expect(call("unpause", [], wallet1).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(readOnly("is-paused")).toBeBool(true);
+		});
+
+		it("should follow a change of owner", () => {
+			call("transfer-ownership", [Cl.standardPrincipal(wallet3)], deployer);
+			call("accept-ownership", [], wallet3);
+
+			expect(pause().result).toBeErr(Cl.uint(errors.unauthorized));
+			expect(call("pause", [], wallet3).result).toBeOk(Cl.bool(true));
+		});
+	});
+
+	describe("While Paused", () => {
+		it("should block joins, departures and kicks until unpaused", async () => {
+			pause();
+
+			expect(join(wallet3).result).toBeErr(Cl.uint(errors.paused));
+			expect((await leave(wallet1)).result).toBeErr(Cl.uint(errors.paused));
+			expect(kick(wallet2).result).toBeErr(Cl.uint(errors.paused));
+			expect(readOnly("get-total-players")).toBeUint(3);
+
+			unpause();
+
+			expect(join(wallet3).result).toBeOk(Cl.bool(true));
+			expect((await leave(wallet1)).result).toBeOk(Cl.bool(true));
+			expect(kick(wallet2).result).toBeOk(Cl.bool(true));
+			expect(readOnly("get-total-players")).toBeUint(2);
+		});
+
+		it("should block claims and fee sweeps until unpaused", async () => {
+			const tree = new PayoutTree([{ winner: wallet2, amount: 2000000 }]);
+			lockPool(pool);
+			call(
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(await tree.sign(contract, SIGNATURE_EXPIRY)),
+				],
+				deployer
+			);
+			const claimWithProof = () =>
+				call(
+					"claim-with-proof",
+					[
+						...tokenArgs,
+						Cl.uint(2000000),
+						Cl.list(tree.getProof(wallet2).map((node) => Cl.bufferFromHex(node))),
+					],
+					wallet2
+				);
+			pause();
+
+			expect((await claimReward(wallet1, 3000000)).result).toBeErr(
+				Cl.uint(errors.paused)
+			);
+			expect(claimWithProof().result).toBeErr(Cl.uint(errors.paused));
+			expect(readOnly("has-claimed-reward", [Cl.standardPrincipal(wallet1)])).toBeBool(
+				false
+			);
+
+			unpause();
+
+			expect((await claimReward(wallet1, 3000000)).result).toBeOk(Cl.bool(true));
+			expect(claimWithProof().result).toBeOk(Cl.bool(true));
+
+			pause();
+			expect(call("sweep-fees", tokenArgs, wallet3).result).toBeErr(
+				Cl.uint(errors.paused)
+			);
+			unpause();
+			expect(call("sweep-fees", tokenArgs, wallet3).result).toBeOk(Cl.uint(100000));
+		});
+
+		it("should block refunds until unpaused", () => {
+			call("cancel-pool", [], deployer);
+			pause();
+
+			expect(call("claim-refund", tokenArgs, deployer).result).toBeErr(
+				Cl.uint(errors.paused)
+			);
+
+			unpause();
+			expect(call("claim-refund", tokenArgs, deployer).result).toBeOk(
+				Cl.bool(true)
+			);
+		});
+
+		it("should keep read-only functions and pool management working", () => {
+			pause();
+
+			expect(readOnly("get-total-players")).toBeUint(3);
+			expect(readOnly("get-players", [Cl.uint(0), Cl.uint(20)])).toStrictEqual(
+				Cl.list([deployer, wallet1, wallet2].map((p) => Cl.standardPrincipal(p)))
+			);
+			expect(
+				readOnly("has-player-joined", [Cl.standardPrincipal(wallet1)])
+			).toBeBool(true);
+			expect(readOnly("get-pool-status")).toBeUint(1);
+
+			expect(call("set-fee-bps", [Cl.uint(100)], deployer).result).toBeOk(
+				Cl.bool(true)
+			);
+			expect(call("cancel-pool", [], deployer).result).toBeOk(Cl.bool(true));
+		});
+	});
+});
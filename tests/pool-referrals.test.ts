@@ -0,0 +1,191 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { SIGNATURE_EXPIRY } from "./helpers/signature-helper";
+import { settlePool } from "./helpers/pool-lifecycle";
+import { decodePoolEvents } from "./helpers/pool-events";
+import { kickArgs } from "./helpers/moderation";
+import {
+	getReferralEarnings,
+	getReferrer,
+	listReferralPools,
+} from "./helpers/referrals";
+import { POOLS, poolCalls, preparePool } from "./helpers/pool-suite";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+// A 4000000 reward pays a 2% fee of 80000, 20% of which goes to the referrer
+const REWARD = 4000000;
+const FEE = 80000n;
+const REFERRAL_CUT = 16000n;
+
+describe.each(POOLS)("Referrals in $pool", (variant) => {
+	const { pool, tokenArgs, errors } = variant;
+	const { contract, call, readOnly, signed, join } = poolCalls(variant);
+	// Another pool sharing the referrals
+	const otherPool = pool === "factory" ? "sponsored-pool" : "factory";
+
+	const joinWithReferrer = (player: string, referrer: string) =>
+		call("join-with-referrer", [...tokenArgs, Cl.standardPrincipal(referrer)], player);
+
+	const claim = async (winner: string) =>
+		call(
+			"claim-reward",
+			[
+				...tokenArgs,
+				Cl.uint(REWARD),
+				Cl.uint(SIGNATURE_EXPIRY),
+				await signed("claim", REWARD, winner),
+			],
+			winner
+		);
+
+	const unlistPool = () =>
+		simnet.callPublicFn("referrals", "remove-pool", [Cl.principal(contract)], deployer);
+
+	beforeEach(async () => {
+		await preparePool(variant);
+		listReferralPools(pool, otherPool);
+		join(deployer);
+	});
+
+	describe("Join With Referrer", () => {
+		it("should join the pool and record the referrer", () => {
+			const result = joinWithReferrer(wallet1, wallet3);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(decodePoolEvents(result.events)).toMatchObject([
+				{ event: "referred", player: wallet1, referrer: wallet3 },
+				{ event: "join", player: wallet1 },
+			]);
+			expect(readOnly("has-player-joined", [Cl.standardPrincipal(wallet1)])).toBeBool(
+				true
+			);
+			expect(getReferrer(wallet1)).toBe(wallet3);
+		});
+
+		it("should keep the first referrer of a returning player", () => {
+			joinWithReferrer(wallet1, wallet3);
+			call("kick", kickArgs(wallet1), deployer);
+
+			const result = joinWithReferrer(wallet1, wallet2);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(decodePoolEvents(result.events)).toMatchObject([{ event: "join" }]);
+			expect(getReferrer(wallet1)).toBe(wallet3);
+		});
+
+		it("should reject self-referrals", () => {
+			expect(joinWithReferrer(wallet1, wallet1).result).toBeErr(
+				Cl.uint(errors.selfReferral)
+			);
+			expect(readOnly("has-player-joined", [Cl.standardPrincipal(wallet1)])).toBeBool(
+				false
+			);
+		});
+
+		it("should reject circular referrals", () => {
+			joinWithReferrer(wallet1, wallet2);
+
+			expect(joinWithReferrer(wallet2, wallet1).result).toBeErr(
+				Cl.uint(errors.circularReferral)
+			);
+			expect(readOnly("has-player-joined", [Cl.standardPrincipal(wallet2)])).toBeBool(
+				false
+			);
+			expect(getReferrer(wallet2)).toBeUndefined();
+		});
+
+		it("should reject loops closed through other pools", () => {
+			// wallet1 <- wallet2 <- wallet3, the second referral made elsewhere
+			joinWithReferrer(wallet1, wallet2);
+			simnet.callPublicFn(otherPool, "join", [], deployer);
+			simnet.callPublicFn(
+				otherPool,
+				"join-with-referrer",
+				[Cl.standardPrincipal(wallet3)],
+				wallet2
+			);
+
+			expect(joinWithReferrer(wallet3, wallet1).result).toBeErr(
+				Cl.uint(errors.circularReferral)
+			);
+		});
+
+		it("should not record referrals in pools off the referrals contract", () => {
+			unlistPool();
+
+			expect(joinWithReferrer(wallet1, wallet3).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(getReferrer(wallet1)).toBeUndefined();
+			expect(join(wallet1).result).toBeOk(Cl.bool(true));
+		});
+	});
+
+	describe("Referral Rewards", () => {
+		it("should pay the referrer a share of the winner's fee", async () => {
+			joinWithReferrer(wallet1, wallet3);
+			settlePool(pool);
+
+			const result = await claim(wallet1);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(decodePoolEvents(result.events)).toMatchObject([
+				{ event: "claim", player: wallet1, amount: BigInt(REWARD), fee: FEE },
+				{ event: "referral", player: wallet3, amount: REFERRAL_CUT },
+			]);
+			expect(result.events).toContainEqual(
+				expect.objectContaining({
+					data: expect.objectContaining({
+						amount: REFERRAL_CUT.toString(),
+						sender: contract,
+						recipient: wallet3,
+					}),
+				})
+			);
+
+			expect(readOnly("get-accrued-fees")).toBeUint(FEE - REFERRAL_CUT);
+			expect(getReferralEarnings(wallet3, [pool, otherPool])).toStrictEqual({
+				byPool: { [contract]: REFERRAL_CUT, [`${deployer}.${otherPool}`]: 0n },
+				total: REFERRAL_CUT,
+			});
+		});
+
+		it("should pay referrers of players referred in another pool", async () => {
+			simnet.callPublicFn(otherPool, "join", [], deployer);
+			simnet.callPublicFn(
+				otherPool,
+				"join-with-referrer",
+				[Cl.standardPrincipal(wallet3)],
+				wallet1
+			);
+			join(wallet1);
+			settlePool(pool);
+
+			await claim(wallet1);
+			expect(getReferralEarnings(wallet3, [pool]).total).toBe(REFERRAL_CUT);
+		});
+
+		it("should keep the whole fee for players nobody referred", async () => {
+			join(wallet1);
+			settlePool(pool);
+
+			const result = await claim(wallet1);
+			expect(decodePoolEvents(result.events)).toMatchObject([{ event: "claim" }]);
+			expect(readOnly("get-accrued-fees")).toBeUint(FEE);
+		});
+
+		it("should stop paying referrers once the pool leaves the referrals contract", async () => {
+			joinWithReferrer(wallet1, wallet3);
+			unlistPool();
+			settlePool(pool);
+
+			const result = await claim(wallet1);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(readOnly("get-accrued-fees")).toBeUint(FEE);
+			expect(getReferralEarnings(wallet3, [pool]).total).toBe(0n);
+		});
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const POOL = `${deployer}.factory`;
+
+const registerPool = (sender = deployer) =>
+	simnet.callPublicFn(
+		"pool-registry",
+		"register-pool",
+		[
+			Cl.contractPrincipal(deployer, "factory"),
+			Cl.uint(5000000),
+			Cl.standardPrincipal(wallet1),
+			Cl.stringAscii("lexi-wars"),
+		],
+		sender
+	);
+
+const setPoolStatus = (status: number, sender: string) =>
+	simnet.callPublicFn(
+		"pool-registry",
+		"set-pool-status",
+		[Cl.principal(POOL), Cl.uint(status)],
+		sender
+	);
+
+const getPool = () =>
+	simnet.callReadOnlyFn("pool-registry", "get-pool", [Cl.principal(POOL)], deployer)
+		.result;
+
+describe("Pool Registry Contract Tests", () => {
+	describe("Register Pool Function", () => {
+		it("should record a pool with its parameters", () => {
+			const result = registerPool();
+			expect(result.result).toBeOk(Cl.uint(0));
+
+			expect(getPool()).toBeSome(
+				Cl.tuple({
+					id: Cl.uint(0),
+					"entry-fee": Cl.uint(5000000),
+					host: Cl.standardPrincipal(wallet1),
+					"game-type": Cl.stringAscii("lexi-wars"),
+					status: Cl.uint(1), // STATUS_OPEN
+					"registered-at": Cl.uint(simnet.blockHeight),
+				})
+			);
+
+			const count = simnet.callReadOnlyFn(
+				"pool-registry",
+				"get-pool-count",
+				[],
+				deployer
+			);
+			expect(count.result).toBeUint(1);
+
+			const first = simnet.callReadOnlyFn(
+				"pool-registry",
+				"get-pool-at",
+				[Cl.uint(0)],
+				deployer
+			);
+			expect(first.result).toBeSome(Cl.tuple({ pool: Cl.principal(POOL) }));
+		});
+
+		it("should prevent non-deployer from registering a pool", () => {
+			const result = registerPool(wallet1);
+			expect(result.result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+		});
+
+		it("should prevent registering the same pool twice", () => {
+			registerPool();
+
+			const result = registerPool();
+			expect(result.result).toBeErr(Cl.uint(2)); // ERR_POOL_EXISTS
+		});
+	});
+
+	describe("Set Pool Status Function", () => {
+		it("should let the host close the pool", () => {
+			registerPool();
+
+			const result = setPoolStatus(2, wallet1);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(getPool()).toBeSome(
+				expect.objectContaining({
+					data: expect.objectContaining({ status: Cl.uint(2) }),
+				})
+			);
+		});
+
+		it("should prevent anyone else from changing the status", () => {
+			registerPool();
+
+			const result = setPoolStatus(2, wallet2);
+			expect(result.result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+		});
+
+		it("should reject unknown pools and statuses", () => {
+			expect(setPoolStatus(2, deployer).result).toBeErr(Cl.uint(3)); // ERR_POOL_NOT_FOUND
+
+			registerPool();
+			expect(setPoolStatus(7, deployer).result).toBeErr(Cl.uint(4)); // ERR_INVALID_STATUS
+		});
+	});
+});
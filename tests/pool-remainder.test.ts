@@ -0,0 +1,177 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { SIGNATURE_EXPIRY } from "./helpers/signature-helper";
+import { PoolStatus, settlePool } from "./helpers/pool-lifecycle";
+import { decodePoolEvents } from "./helpers/pool-events";
+import { poolCalls, preparePool, SPONSORED_POOLS } from "./helpers/pool-suite";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+// Sponsors' claim-refund fails with ERR_NOTHING_TO_REFUND once a treasury
+// took the remainder
+const ERR_NOTHING_TO_REFUND = 25;
+
+describe.each(SPONSORED_POOLS)("Remainder of $pool", (variant) => {
+	const { pool, tokenArgs, stake: poolSize, coSponsored, balanceOf, errors } = variant;
+	const { contract, call, readOnly, signed, join } = poolCalls(variant);
+
+	const claim = async (winner: string, amount: number) =>
+		call(
+			"claim-reward",
+			[
+				...tokenArgs,
+				Cl.uint(amount),
+				Cl.uint(SIGNATURE_EXPIRY),
+				await signed("claim", amount, winner),
+			],
+			winner
+		);
+
+	const closePool = (sender = deployer) => call("close-pool", tokenArgs, sender);
+
+	const setTreasury = (wallet: string | null, sender = deployer) =>
+		call(
+			"set-treasury",
+			[wallet ? Cl.some(Cl.standardPrincipal(wallet)) : Cl.none()],
+			sender
+		);
+
+	/**
+	 * Settles the pool and pays two winners from it
+	 * @returns What the winners left in the pool
+	 */
+	const settleAndClaim = async (rewards = [3000000, 1000000]) => {
+		settlePool(pool);
+		expect((await claim(wallet1, rewards[0])).result).toBeOk(Cl.bool(true));
+		expect((await claim(wallet2, rewards[1])).result).toBeOk(Cl.bool(true));
+		return BigInt(poolSize - rewards[0] - rewards[1]);
+	};
+
+	// Only fees can be left once the remainder is gone
+	const expectEmptyAfterSweep = () => {
+		expect(call("sweep-fees", tokenArgs, wallet3).result).toBeOk(expect.anything());
+		expect(balanceOf(contract)).toBe(0n);
+	};
+
+	beforeEach(async () => {
+		await preparePool(variant);
+		join(deployer);
+		join(wallet1);
+		join(wallet2);
+	});
+
+	it("should return the remainder to the sponsor and end empty", async () => {
+		const remainder = await settleAndClaim();
+		const sponsorBalance = balanceOf(deployer);
+
+		const closed = closePool();
+		expect(closed.result).toBeOk(Cl.bool(true));
+		expect(readOnly("get-pool-status")).toBeUint(PoolStatus.Closed);
+		if (coSponsored) {
+			// Co-sponsors take their share back themselves
+			expect(decodePoolEvents(closed.events)).toMatchObject([{ event: "close" }]);
+			expect(call("claim-refund", tokenArgs, deployer).result).toBeOk(Cl.bool(true));
+		} else {
+			expect(decodePoolEvents(closed.events)).toMatchObject([
+				{ event: "close", player: deployer, amount: 0n },
+				{ event: "remainder", player: deployer, amount: remainder },
+			]);
+		}
+
+		expect(balanceOf(deployer)).toBe(sponsorBalance + remainder);
+		expectEmptyAfterSweep();
+	});
+
+	it("should send the remainder to the treasury when one is set", async () => {
+		expect(setTreasury(wallet3).result).toBeOk(Cl.bool(true));
+		expect(readOnly("get-treasury")).toBeSome(Cl.standardPrincipal(wallet3));
+		const remainder = await settleAndClaim();
+		const treasuryBalance = balanceOf(wallet3);
+		const sponsorBalance = balanceOf(deployer);
+
+		const closed = closePool();
+		expect(closed.result).toBeOk(Cl.bool(true));
+		expect(decodePoolEvents(closed.events)).toMatchObject([
+			{ event: "close", player: deployer, amount: 0n },
+			{ event: "remainder", player: wallet3, amount: remainder },
+		]);
+
+		expect(balanceOf(wallet3)).toBe(treasuryBalance + remainder);
+		expect(balanceOf(deployer)).toBe(sponsorBalance);
+		expectEmptyAfterSweep();
+		// The sponsor has nothing left to take back
+		expect(call("claim-refund", tokenArgs, deployer).result).toBeErr(
+			Cl.uint(coSponsored ? ERR_NOTHING_TO_REFUND : errors.invalidStatus)
+		);
+	});
+
+	it("should close a pool the winners fully claimed", async () => {
+		const remainder = await settleAndClaim([poolSize - 1000000, 1000000]);
+		expect(remainder).toBe(0n);
+
+		const closed = closePool();
+		expect(closed.result).toBeOk(Cl.bool(true));
+		expect(closed.events.filter((e) => e.event !== "print_event")).toStrictEqual([]);
+		expectEmptyAfterSweep();
+	});
+
+	it("should return the remainder to the sponsor once the treasury is cleared", async () => {
+		setTreasury(wallet3);
+		const cleared = setTreasury(null);
+		expect(cleared.result).toBeOk(Cl.bool(true));
+		expect(decodePoolEvents(cleared.events)).toMatchObject([
+			{ event: "treasury", player: deployer, treasury: null },
+		]);
+		expect(readOnly("get-treasury")).toBeNone();
+
+		const remainder = await settleAndClaim();
+		const treasuryBalance = balanceOf(wallet3);
+		closePool();
+		if (coSponsored) {
+			call("claim-refund", tokenArgs, deployer);
+		}
+
+		expect(balanceOf(wallet3)).toBe(treasuryBalance);
+		expect(remainder).toBeGreaterThan(0n);
+		expectEmptyAfterSweep();
+	});
+
+	it("should only let a treasurer set the treasury", () => {
+		expect(setTreasury(wallet3, wallet1).result).toBeErr(
+			Cl.uint(errors.unauthorized)
+		);
+
+		call("grant-role", [Cl.uint(2), Cl.standardPrincipal(wallet1)], deployer);
+		const result = setTreasury(wallet3, wallet1);
+		expect(result.result).toBeOk(Cl.bool(true));
+		expect(decodePoolEvents(result.events)).toMatchObject([
+			{ event: "treasury", player: wallet1, treasury: wallet3 },
+		]);
+	});
+
+	it("should close only a settled pool, and only as the host", () => {
+		expect(closePool().result).toBeErr(Cl.uint(errors.invalidStatus));
+		settlePool(pool);
+
+		expect(closePool(wallet1).result).toBeErr(Cl.uint(errors.unauthorized));
+		call("pause", [], deployer);
+		expect(closePool().result).toBeErr(Cl.uint(errors.paused));
+		call("unpause", [], deployer);
+
+		expect(closePool().result).toBeOk(Cl.bool(true));
+		expect(closePool().result).toBeErr(Cl.uint(errors.invalidStatus));
+	});
+
+	it("should end claims once closed", async () => {
+		settlePool(pool);
+		closePool();
+
+		expect((await claim(wallet1, 1000000)).result).toBeErr(
+			Cl.uint(errors.invalidStatus)
+		);
+	});
+});
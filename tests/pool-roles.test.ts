@@ -0,0 +1,261 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { lockPool, settlePool } from "./helpers/pool-lifecycle";
+import { kickArgs } from "./helpers/moderation";
+import { POOLS, poolCalls, preparePool } from "./helpers/pool-suite";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const ROLE_MODERATOR = 1;
+const ROLE_TREASURER = 2;
+
+describe.each(POOLS)("Roles in $pool", (variant) => {
+	const { pool, sponsored, tokenArgs, errors } = variant;
+	const { call, readOnly, join } = poolCalls(variant);
+
+	const kick = (player: string, sender: string) =>
+		call("kick", kickArgs(player), sender);
+
+	const grantRole = (role: number, account: string, sender = deployer) =>
+		call("grant-role", [Cl.uint(role), Cl.standardPrincipal(account)], sender);
+
+	const revokeRole = (role: number, account: string, sender = deployer) =>
+		call("revoke-role", [Cl.uint(role), Cl.standardPrincipal(account)], sender);
+
+	const hasRole = (role: number, account: string) =>
+		readOnly("has-role", [Cl.uint(role), Cl.standardPrincipal(account)]);
+
+	const setHost = (host: string, sender = deployer) =>
+		call("set-host", [Cl.standardPrincipal(host)], sender);
+
+	beforeEach(async () => {
+		await preparePool(variant);
+		if (pool === "sponsored-ft-pool") {
+			// Lets wallet1 sponsor the pool once it is made host
+			simnet.callPublicFn(
+				"test-token",
+				"transfer",
+				[
+					Cl.uint(100000000),
+					Cl.standardPrincipal(deployer),
+					Cl.standardPrincipal(wallet1),
+					Cl.none(),
+				],
+				deployer
+			);
+		}
+	});
+
+	describe("Ownership", () => {
+		it("should start with the deploying key as owner, host and treasurer", () => {
+			expect(readOnly("get-owner")).toBePrincipal(deployer);
+			expect(readOnly("get-pending-owner")).toBeNone();
+			expect(readOnly("get-host")).toBePrincipal(deployer);
+			expect(hasRole(ROLE_TREASURER, deployer)).toBeBool(true);
+			expect(hasRole(ROLE_MODERATOR, deployer)).toBeBool(false);
+		});
+
+		it("should move ownership only once the new owner accepts", () => {
+			expect(
+				call("transfer-ownership", [Cl.standardPrincipal(wallet1)], deployer).result
+			).toBeOk(Cl.bool(true));
+			expect(readOnly("get-pending-owner")).toBeSome(Cl.standardPrincipal(wallet1));
+			expect(readOnly("get-owner")).toBePrincipal(deployer);
+
+			expect(call("accept-ownership", [], wallet2).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(call("accept-ownership", [], wallet1).result).toBeOk(Cl.bool(true));
+
+			expect(readOnly("get-owner")).toBePrincipal(wallet1);
+			expect(readOnly("get-pending-owner")).toBeNone();
+			expect(grantRole(ROLE_MODERATOR, wallet3).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(grantRole(ROLE_MODERATOR, wallet3, wallet1).result).toBeOk(
+				Cl.bool(true)
+			);
+		});
+
+		it("should let the owner replace a pending transfer", () => {
+			call("transfer-ownership", [Cl.standardPrincipal(wallet1)], deployer);
+			call("transfer-ownership", [Cl.standardPrincipal(wallet2)], deployer);
+
+			expect(call("accept-ownership", [], wallet1).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(call("accept-ownership", [], wallet2).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should only let the owner transfer ownership", () => {
+			const result = call(
+				"transfer-ownership",
+				[Cl.standardPrincipal(wallet1)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(errors.unauthorized));
+			expect(readOnly("get-pending-owner")).toBeNone();
+		});
+	});
+
+	describe("Host", () => {
+		beforeEach(() => {
+			expect(setHost(wallet1).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should let the new host open the pool", () => {
+			expect(readOnly("get-host")).toBePrincipal(wallet1);
+			expect(join(deployer).result).toBeErr(Cl.uint(errors.notJoinable));
+
+			expect(join(wallet1).result).toBeOk(Cl.bool(true));
+			expect(join(deployer).result).toBeOk(Cl.bool(true));
+			if (sponsored) {
+				expect(readOnly("is-pool-sponsored")).toBeBool(true);
+			}
+		});
+
+		it("should let only the host run the pool lifecycle", () => {
+			join(wallet1);
+			join(wallet2);
+
+			expect(lockPool(pool).result).toBeErr(Cl.uint(errors.unauthorized));
+			expect(call("cancel-pool", [], deployer).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(settlePool(pool, wallet1).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should not change once someone has joined", () => {
+			join(wallet1);
+
+			expect(setHost(wallet2).result).toBeErr(Cl.uint(errors.notEmpty));
+			expect(readOnly("get-host")).toBePrincipal(wallet1);
+		});
+
+		it("should only be set by the owner", () => {
+			expect(setHost(wallet2, wallet1).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+		});
+
+		it("should keep the host from being kicked", () => {
+			join(wallet1);
+			grantRole(ROLE_MODERATOR, wallet3);
+
+			expect(kick(wallet1, wallet3).result).toBeErr(Cl.uint(errors.unauthorized));
+		});
+
+		if (sponsored) {
+			it("should return the sponsorship to the host", () => {
+				join(wallet1);
+				call("cancel-pool", [], wallet1);
+
+				const result = call("claim-refund", tokenArgs, wallet1);
+				expect(result.result).toBeOk(Cl.bool(true));
+				expect(result.events).toContainEqual(
+					expect.objectContaining({
+						data: expect.objectContaining({ recipient: wallet1 }),
+					})
+				);
+			});
+		}
+	});
+
+	describe("Moderator", () => {
+		beforeEach(() => {
+			join(deployer);
+			join(wallet1);
+			join(wallet2);
+		});
+
+		it("should let a moderator kick players", () => {
+			expect(kick(wallet2, wallet3).result).toBeErr(Cl.uint(errors.unauthorized));
+
+			expect(grantRole(ROLE_MODERATOR, wallet3).result).toBeOk(Cl.bool(true));
+			expect(hasRole(ROLE_MODERATOR, wallet3)).toBeBool(true);
+			expect(kick(wallet2, wallet3).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should still let the host kick players", () => {
+			expect(kick(wallet2, deployer).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should not give a moderator the host's powers", () => {
+			grantRole(ROLE_MODERATOR, wallet3);
+
+			expect(lockPool(pool, wallet3).result).toBeErr(Cl.uint(errors.unauthorized));
+			expect(
+				call("set-fee-bps", [Cl.uint(100)], wallet3).result
+			).toBeErr(Cl.uint(errors.unauthorized));
+		});
+
+		it("should stop kicking once revoked", () => {
+			grantRole(ROLE_MODERATOR, wallet3);
+			expect(revokeRole(ROLE_MODERATOR, wallet3).result).toBeOk(Cl.bool(true));
+
+			expect(hasRole(ROLE_MODERATOR, wallet3)).toBeBool(false);
+			expect(kick(wallet2, wallet3).result).toBeErr(Cl.uint(errors.unauthorized));
+		});
+	});
+
+	describe("Treasurer", () => {
+		it("should let a treasurer set the fee and the fee wallet", () => {
+			expect(call("set-fee-bps", [Cl.uint(100)], wallet3).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+
+			grantRole(ROLE_TREASURER, wallet3);
+			expect(call("set-fee-bps", [Cl.uint(100)], wallet3).result).toBeOk(
+				Cl.bool(true)
+			);
+			expect(
+				call("set-fee-wallet", [Cl.standardPrincipal(wallet3)], wallet3).result
+			).toBeOk(Cl.bool(true));
+			expect(readOnly("get-fee-bps")).toBeUint(100);
+			expect(readOnly("get-fee-wallet")).toBePrincipal(wallet3);
+		});
+
+		it("should take fee control from a host without the role", () => {
+			expect(revokeRole(ROLE_TREASURER, deployer).result).toBeOk(Cl.bool(true));
+
+			expect(call("set-fee-bps", [Cl.uint(100)], deployer).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(
+				call("set-fee-wallet", [Cl.standardPrincipal(wallet1)], deployer).result
+			).toBeErr(Cl.uint(errors.unauthorized));
+		});
+
+		it("should not let a treasurer kick or run the pool", () => {
+			grantRole(ROLE_TREASURER, wallet3);
+			join(deployer);
+			join(wallet1);
+
+			expect(kick(wallet1, wallet3).result).toBeErr(Cl.uint(errors.unauthorized));
+			expect(call("cancel-pool", [], wallet3).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+		});
+	});
+
+	describe("Role Management", () => {
+		it("should only let the owner grant and revoke roles", () => {
+			expect(grantRole(ROLE_MODERATOR, wallet3, wallet1).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(revokeRole(ROLE_TREASURER, deployer, wallet1).result).toBeErr(
+				Cl.uint(errors.unauthorized)
+			);
+			expect(hasRole(ROLE_TREASURER, deployer)).toBeBool(true);
+		});
+
+		it("should reject unknown roles", () => {
+			expect(grantRole(3, wallet3).result).toBeErr(Cl.uint(errors.invalidRole));
+			expect(revokeRole(0, wallet3).result).toBeErr(Cl.uint(errors.invalidRole));
+		});
+	});
+});
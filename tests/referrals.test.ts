@@ -0,0 +1,169 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { getReferralEarnings, getReferrer } from "./helpers/referrals";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+const wallet4 = accounts.get("wallet_4")!;
+// Stands in for a listed pool contract calling the referrals contract
+const pool = accounts.get("wallet_5")!;
+
+const register = (player: string, referrer: string, sender = pool) =>
+	simnet.callPublicFn(
+		"referrals",
+		"register",
+		[Cl.standardPrincipal(player), Cl.standardPrincipal(referrer)],
+		sender
+	);
+
+const recordEarning = (referrer: string, amount: number, sender = pool) =>
+	simnet.callPublicFn(
+		"referrals",
+		"record-earning",
+		[Cl.standardPrincipal(referrer), Cl.uint(amount)],
+		sender
+	);
+
+const isCircular = (player: string, referrer: string) =>
+	simnet.callReadOnlyFn(
+		"referrals",
+		"is-circular",
+		[Cl.standardPrincipal(player), Cl.standardPrincipal(referrer)],
+		deployer
+	).result;
+
+describe("Referrals Contract Tests", () => {
+	beforeEach(() => {
+		simnet.callPublicFn(
+			"referrals",
+			"add-pool",
+			[Cl.standardPrincipal(pool)],
+			deployer
+		);
+	});
+
+	describe("Referral Share", () => {
+		it("should give referrers 20% of the fee by default", () => {
+			expect(
+				simnet.callReadOnlyFn("referrals", "get-share-bps", [], deployer).result
+			).toBeUint(2000);
+			expect(
+				simnet.callReadOnlyFn("referrals", "get-referral-cut", [Cl.uint(80001)], deployer)
+					.result
+			).toBeUint(16000);
+		});
+
+		it("should let the deployer change the share up to half the fee", () => {
+			const setShare = (bps: number, sender = deployer) =>
+				simnet.callPublicFn("referrals", "set-share-bps", [Cl.uint(bps)], sender);
+
+			expect(setShare(5000).result).toBeOk(Cl.bool(true));
+			expect(setShare(5001).result).toBeErr(Cl.uint(4)); // ERR_SHARE_TOO_HIGH
+			expect(setShare(1000, wallet1).result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+			expect(
+				simnet.callReadOnlyFn("referrals", "get-share-bps", [], deployer).result
+			).toBeUint(5000);
+		});
+	});
+
+	describe("Register Function", () => {
+		it("should record a referral through a listed pool", () => {
+			expect(register(wallet1, wallet2).result).toBeOk(Cl.bool(true));
+
+			expect(getReferrer(wallet1)).toBe(wallet2);
+			expect(
+				simnet.callReadOnlyFn(
+					"referrals",
+					"get-referral",
+					[Cl.standardPrincipal(wallet1)],
+					deployer
+				).result
+			).toBeSome(
+				Cl.tuple({
+					referrer: Cl.standardPrincipal(wallet2),
+					pool: Cl.standardPrincipal(pool),
+					"referred-at": Cl.uint(simnet.blockHeight),
+				})
+			);
+			expect(
+				simnet.callReadOnlyFn(
+					"referrals",
+					"get-referral-count",
+					[Cl.standardPrincipal(wallet2)],
+					deployer
+				).result
+			).toBeUint(1);
+		});
+
+		it("should keep a player's first referrer", () => {
+			register(wallet1, wallet2);
+
+			expect(register(wallet1, wallet3).result).toBeOk(Cl.bool(false));
+			expect(getReferrer(wallet1)).toBe(wallet2);
+		});
+
+		it("should only take referrals from listed pools", () => {
+			expect(register(wallet1, wallet2, wallet3).result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+			expect(getReferrer(wallet1)).toBeUndefined();
+
+			simnet.callPublicFn(
+				"referrals",
+				"remove-pool",
+				[Cl.standardPrincipal(pool)],
+				deployer
+			);
+			expect(register(wallet1, wallet2).result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+		});
+
+		it("should reject self-referrals", () => {
+			expect(register(wallet1, wallet1).result).toBeErr(Cl.uint(2)); // ERR_SELF_REFERRAL
+			expect(getReferrer(wallet1)).toBeUndefined();
+		});
+
+		it("should reject a referrer referred by the player", () => {
+			register(wallet1, wallet2);
+
+			expect(isCircular(wallet2, wallet1)).toBeBool(true);
+			expect(register(wallet2, wallet1).result).toBeErr(Cl.uint(3)); // ERR_CIRCULAR_REFERRAL
+		});
+
+		it("should reject loops further up the chain", () => {
+			// wallet1 <- wallet2 <- wallet3 <- wallet4
+			register(wallet1, wallet2);
+			register(wallet2, wallet3);
+			register(wallet3, wallet4);
+
+			expect(register(wallet4, wallet1).result).toBeErr(Cl.uint(3)); // ERR_CIRCULAR_REFERRAL
+			expect(isCircular(wallet4, wallet2)).toBeBool(true);
+		});
+
+		it("should accept referrers on separate chains", () => {
+			register(wallet1, wallet2);
+			register(wallet3, wallet4);
+
+			expect(isCircular(wallet2, wallet3)).toBeBool(false);
+			expect(register(wallet2, wallet3).result).toBeOk(Cl.bool(true));
+		});
+	});
+
+	describe("Earnings", () => {
+		it("should add up earnings per referrer and pool", () => {
+			expect(recordEarning(wallet2, 16000).result).toBeOk(Cl.bool(true));
+			recordEarning(wallet2, 4000);
+
+			expect(getReferralEarnings(wallet2, [pool])).toStrictEqual({
+				byPool: { [pool]: 20000n },
+				total: 20000n,
+			});
+			expect(getReferralEarnings(wallet3, [pool]).total).toBe(0n);
+		});
+
+		it("should only take earnings from listed pools", () => {
+			expect(recordEarning(wallet2, 16000, wallet3).result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+			expect(getReferralEarnings(wallet2, [wallet3]).total).toBe(0n);
+		});
+	});
+});
@@ -0,0 +1,243 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+import {
+	generateSignature,
+	registerTrustedSigner,
+	SIGNATURE_EXPIRY,
+} from "./helpers/signature-helper";
+import { PayoutTree } from "./helpers/payout-tree";
+import { lockPool, settlePool } from "./helpers/pool-lifecycle";
+import {
+	fundSbtc,
+	getSbtcBalance,
+	sbtcTransferEvent,
+} from "./helpers/sbtc";
+import { kickArgs } from "./helpers/moderation";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+const faucet = accounts.get("faucet")!;
+
+const contractId = `${deployer}.sbtc-pool`;
+const ENTRY_FEE = 5000000;
+const FEE_WALLET = "SP39V8Q7KATNA4B0ZKD6QNTMHDNH5VJXRBG7PB8G2";
+
+const join = (player: string) =>
+	simnet.callPublicFn("sbtc-pool", "join", [], player);
+
+const getPoolBalance = () =>
+	simnet.callReadOnlyFn("sbtc-pool", "get-pool-balance", [], deployer).result;
+
+const getAccruedFees = () =>
+	simnet.callReadOnlyFn("sbtc-pool", "get-accrued-fees", [], deployer).result;
+
+describe("sBTC Pool Contract Tests", () => {
+	beforeEach(async () => {
+		// Each test starts with a fresh simnet state
+		// Register the local test signer next to the production key
+		await registerTrustedSigner();
+	});
+
+	describe("Join Pool Function", () => {
+		it("should take the entry fee in sBTC", () => {
+			const before = getSbtcBalance(deployer);
+
+			const result = join(deployer);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual(
+				sbtcTransferEvent(ENTRY_FEE, deployer, contractId)
+			);
+			expect(
+				result.events.some((e) => e.event === "stx_transfer_event")
+			).toBe(false);
+			expect(getSbtcBalance(deployer)).toBe(before - BigInt(ENTRY_FEE));
+			expect(getPoolBalance()).toBeUint(ENTRY_FEE);
+		});
+
+		it("should let players join once the host has joined", () => {
+			expect(join(wallet1).result).toBeErr(Cl.uint(15)); // ERR_NOT_JOINABLE
+
+			join(deployer);
+			expect(join(wallet1).result).toBeOk(Cl.bool(true));
+			expect(getPoolBalance()).toBeUint(ENTRY_FEE * 2);
+		});
+
+		it("should reject a player without enough sBTC", () => {
+			join(deployer);
+			fundSbtc(faucet, getSbtcBalance(wallet3), wallet3);
+
+			expect(join(wallet3).result).toBeErr(Cl.uint(7)); // ERR_TRANSFER_FAILED
+			expect(getPoolBalance()).toBeUint(ENTRY_FEE);
+		});
+
+		it("should accept a player funded by another wallet", () => {
+			join(deployer);
+			fundSbtc(faucet, getSbtcBalance(wallet3), wallet3);
+			fundSbtc(wallet3, ENTRY_FEE);
+
+			expect(join(wallet3).result).toBeOk(Cl.bool(true));
+			expect(getSbtcBalance(wallet3)).toBe(0n);
+		});
+	});
+
+	describe("Leave And Kick", () => {
+		beforeEach(() => {
+			join(deployer);
+			join(wallet1);
+		});
+
+		it("should refund the entry fee in sBTC on a signed leave", async () => {
+			const signature = await generateSignature({
+				action: "leave",
+				amount: ENTRY_FEE,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const result = simnet.callPublicFn(
+				"sbtc-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual(
+				sbtcTransferEvent(ENTRY_FEE, contractId, wallet1)
+			);
+			expect(getPoolBalance()).toBeUint(ENTRY_FEE);
+		});
+
+		it("should refund the entry fee in sBTC when kicked", () => {
+			const result = simnet.callPublicFn(
+				"sbtc-pool",
+				"kick",
+				kickArgs(wallet1),
+				deployer
+			);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual(
+				sbtcTransferEvent(ENTRY_FEE, contractId, wallet1)
+			);
+		});
+	});
+
+	describe("Claim Rewards", () => {
+		beforeEach(() => {
+			join(deployer);
+			join(wallet1);
+			join(wallet2);
+		});
+
+		it("should pay the net reward in sBTC and accrue the fee", async () => {
+			settlePool("sbtc-pool");
+			const reward = 8000000;
+			const fee = (reward * 200) / 10000;
+			const signature = await generateSignature({
+				action: "claim",
+				amount: reward,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const result = simnet.callPublicFn(
+				"sbtc-pool",
+				"claim-reward",
+				[Cl.uint(reward), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events.filter((e) => e.event !== "print_event")).toStrictEqual([
+				sbtcTransferEvent(reward - fee, contractId, wallet1),
+			]);
+			expect(getAccruedFees()).toBeUint(fee);
+			expect(getPoolBalance()).toBeUint(ENTRY_FEE * 3 - reward);
+		});
+
+		it("should pay Merkle payouts in sBTC", async () => {
+			const tree = new PayoutTree([{ winner: wallet1, amount: 10000000 }]);
+			lockPool("sbtc-pool");
+			simnet.callPublicFn(
+				"sbtc-pool",
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(await tree.sign(contractId, SIGNATURE_EXPIRY)),
+				],
+				deployer
+			);
+
+			const result = simnet.callPublicFn(
+				"sbtc-pool",
+				"claim-with-proof",
+				[
+					Cl.uint(10000000),
+					Cl.list(tree.getProof(wallet1).map((p) => Cl.bufferFromHex(p))),
+				],
+				wallet1
+			);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual(
+				sbtcTransferEvent(9800000, contractId, wallet1)
+			);
+		});
+
+		it("should sweep the accrued fees in sBTC", async () => {
+			settlePool("sbtc-pool");
+			const signature = await generateSignature({
+				action: "claim",
+				amount: 8000000,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+			simnet.callPublicFn(
+				"sbtc-pool",
+				"claim-reward",
+				[Cl.uint(8000000), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+
+			const result = simnet.callPublicFn("sbtc-pool", "sweep-fees", [], wallet3);
+
+			expect(result.result).toBeOk(Cl.uint(160000));
+			expect(result.events).toContainEqual(
+				sbtcTransferEvent(160000, contractId, FEE_WALLET)
+			);
+			expect(getSbtcBalance(FEE_WALLET)).toBe(160000n);
+			expect(getAccruedFees()).toBeUint(0);
+		});
+	});
+
+	describe("Cancel Refunds", () => {
+		it("should give every player their sBTC back", () => {
+			const players = [deployer, wallet1, wallet2];
+			players.forEach(join);
+			const before = players.map(getSbtcBalance);
+			simnet.callPublicFn("sbtc-pool", "cancel-pool", [], deployer);
+
+			for (const player of players) {
+				const result = simnet.callPublicFn("sbtc-pool", "claim-refund", [], player);
+				expect(result.result).toBeOk(Cl.bool(true));
+				expect(result.events).toContainEqual(
+					sbtcTransferEvent(ENTRY_FEE, contractId, player)
+				);
+			}
+
+			expect(players.map(getSbtcBalance)).toStrictEqual(
+				before.map((balance) => balance + BigInt(ENTRY_FEE))
+			);
+			expect(getPoolBalance()).toBeUint(0);
+		});
+	});
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { keyring, registerSigner } from "./helpers/signature-helper";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+
+const PRODUCTION_PUBLIC_KEY =
+	"02cec878c505b9626fac2363f8566c9fb256e53a78bd3d6ed1297f9399d67c89fb";
+
+const isActiveSigner = (publicKey: string) =>
+	simnet.callReadOnlyFn(
+		"signer-registry",
+		"is-active-signer",
+		[Cl.bufferFromHex(publicKey)],
+		deployer
+	).result;
+
+describe("Signer Registry Contract Tests", () => {
+	describe("Initial State", () => {
+		it("should have the production key active", () => {
+			expect(isActiveSigner(PRODUCTION_PUBLIC_KEY)).toBeBool(true);
+		});
+
+		it("should not know any other key", () => {
+			const publicKey = keyring.generate("unknown");
+			expect(isActiveSigner(publicKey)).toBeBool(false);
+
+			const signer = simnet.callReadOnlyFn(
+				"signer-registry",
+				"get-signer",
+				[Cl.bufferFromHex(publicKey)],
+				deployer
+			);
+			expect(signer.result).toBeNone();
+		});
+	});
+
+	describe("Add Signer Function", () => {
+		it("should allow deployer to add a signer", () => {
+			const publicKey = keyring.generate("new");
+
+			const result = registerSigner(publicKey);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(isActiveSigner(publicKey)).toBeBool(true);
+		});
+
+		it("should prevent non-deployer from adding a signer", () => {
+			const publicKey = keyring.generate("rogue");
+
+			const result = simnet.callPublicFn(
+				"signer-registry",
+				"add-signer",
+				[Cl.bufferFromHex(publicKey), Cl.uint(0)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+		});
+
+		it("should prevent adding the same key twice", () => {
+			const result = registerSigner(PRODUCTION_PUBLIC_KEY);
+			expect(result.result).toBeErr(Cl.uint(2)); // ERR_SIGNER_EXISTS
+		});
+
+		it("should only activate a key at its activation height", () => {
+			const publicKey = keyring.generate("scheduled");
+			const activatedAt = simnet.blockHeight + 5;
+
+			registerSigner(publicKey, activatedAt);
+			expect(isActiveSigner(publicKey)).toBeBool(false);
+
+			simnet.mineEmptyBlocks(5);
+			expect(isActiveSigner(publicKey)).toBeBool(true);
+		});
+	});
+
+	describe("Retire Signer Function", () => {
+		it("should deactivate a key from its retirement height", () => {
+			const retiredAt = simnet.blockHeight + 5;
+
+			const result = simnet.callPublicFn(
+				"signer-registry",
+				"retire-signer",
+				[Cl.bufferFromHex(PRODUCTION_PUBLIC_KEY), Cl.uint(retiredAt)],
+				deployer
+			);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(isActiveSigner(PRODUCTION_PUBLIC_KEY)).toBeBool(true);
+
+			simnet.mineEmptyBlocks(5);
+			expect(isActiveSigner(PRODUCTION_PUBLIC_KEY)).toBeBool(false);
+
+			const signer = simnet.callReadOnlyFn(
+				"signer-registry",
+				"get-signer",
+				[Cl.bufferFromHex(PRODUCTION_PUBLIC_KEY)],
+				deployer
+			);
+			expect(signer.result).toBeSome(
+				Cl.tuple({
+					"activated-at": Cl.uint(0),
+					"retired-at": Cl.some(Cl.uint(retiredAt)),
+				})
+			);
+		});
+
+		it("should prevent non-deployer from retiring a signer", () => {
+			const result = simnet.callPublicFn(
+				"signer-registry",
+				"retire-signer",
+				[Cl.bufferFromHex(PRODUCTION_PUBLIC_KEY), Cl.uint(0)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(1)); // ERR_UNAUTHORIZED
+		});
+
+		it("should prevent retiring an unknown signer", () => {
+			const publicKey = keyring.generate("missing");
+
+			const result = simnet.callPublicFn(
+				"signer-registry",
+				"retire-signer",
+				[Cl.bufferFromHex(publicKey), Cl.uint(10)],
+				deployer
+			);
+			expect(result.result).toBeErr(Cl.uint(3)); // ERR_SIGNER_NOT_FOUND
+		});
+
+		it("should prevent retiring a signer before its activation", () => {
+			const publicKey = keyring.generate("early");
+			registerSigner(publicKey, 100);
+
+			const result = simnet.callPublicFn(
+				"signer-registry",
+				"retire-signer",
+				[Cl.bufferFromHex(publicKey), Cl.uint(50)],
+				deployer
+			);
+			expect(result.result).toBeErr(Cl.uint(4)); // ERR_INVALID_HEIGHT
+		});
+	});
+});
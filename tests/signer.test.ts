@@ -0,0 +1,137 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	createSignerFromEnv,
+	decryptKeystore,
+	DEVNET_SIGNER_PRIVATE_KEY,
+	encryptKeystore,
+	ExternalProcessSigner,
+	KeystoreSigner,
+	MnemonicSigner,
+	PrivateKeySigner,
+} from "./helpers/signer";
+
+// Deployer mnemonic from settings/Devnet.toml, which derives DEVNET_SIGNER_PRIVATE_KEY
+const DEVNET_MNEMONIC =
+	"twice kind fence tip hidden tilt action fragile skin nothing glory cousin green tomorrow spring wrist shed math olympic multiply hip blue scout claw";
+
+const MESSAGE_HASH =
+	"8d4a2d2b4c8f0b7e5b39f3c9d7a1e6f2c0b4a3d5e7f9182736455463728190ab";
+
+const EXTERNAL_SIGNER_COMMAND = `EXTERNAL_SIGNER_PRIVATE_KEY=${DEVNET_SIGNER_PRIVATE_KEY} node ${join(
+	__dirname,
+	"fixtures",
+	"external-signer.cjs"
+)}`;
+
+const devnetSigner = new PrivateKeySigner(DEVNET_SIGNER_PRIVATE_KEY);
+
+describe("Signer Backends", () => {
+	describe("Mnemonic Signer", () => {
+		it("should derive the devnet deployer key", async () => {
+			const signer = new MnemonicSigner(DEVNET_MNEMONIC);
+
+			expect(await signer.getPublicKey()).toBe(devnetSigner.publicKey);
+			expect(await signer.signMessageHash(MESSAGE_HASH)).toBe(
+				await devnetSigner.signMessageHash(MESSAGE_HASH)
+			);
+		});
+
+		it("should derive a different key on another path", async () => {
+			const signer = new MnemonicSigner(DEVNET_MNEMONIC, "m/44'/5757'/0'/0/1");
+
+			expect(await signer.getPublicKey()).not.toBe(devnetSigner.publicKey);
+		});
+	});
+
+	describe("Keystore Signer", () => {
+		let dir: string;
+
+		beforeEach(() => {
+			dir = mkdtempSync(join(tmpdir(), "stacks-wars-keystore-"));
+		});
+
+		afterEach(() => {
+			rmSync(dir, { recursive: true, force: true });
+		});
+
+		it("should round-trip a private key", () => {
+			const keystore = encryptKeystore(DEVNET_SIGNER_PRIVATE_KEY, "hunter2");
+
+			expect(keystore.ciphertext).not.toContain(DEVNET_SIGNER_PRIVATE_KEY);
+			expect(decryptKeystore(keystore, "hunter2")).toBe(
+				DEVNET_SIGNER_PRIVATE_KEY
+			);
+		});
+
+		it("should reject a wrong password", () => {
+			const keystore = encryptKeystore(DEVNET_SIGNER_PRIVATE_KEY, "hunter2");
+
+			expect(() => decryptKeystore(keystore, "hunter3")).toThrow(
+				/wrong password/
+			);
+		});
+
+		it("should sign with the key from a keystore file", async () => {
+			const path = join(dir, "signer.json");
+			writeFileSync(
+				path,
+				JSON.stringify(encryptKeystore(DEVNET_SIGNER_PRIVATE_KEY, "hunter2"))
+			);
+
+			const signer = new KeystoreSigner(path, "hunter2");
+			expect(await signer.getPublicKey()).toBe(devnetSigner.publicKey);
+		});
+	});
+
+	describe("External Process Signer", () => {
+		it("should get the public key and signatures from the process", async () => {
+			const signer = new ExternalProcessSigner(EXTERNAL_SIGNER_COMMAND);
+
+			expect(await signer.getPublicKey()).toBe(devnetSigner.publicKey);
+			expect(await signer.signMessageHash(MESSAGE_HASH)).toBe(
+				await devnetSigner.signMessageHash(MESSAGE_HASH)
+			);
+		});
+
+		it("should fail when the process exits with an error", async () => {
+			const signer = new ExternalProcessSigner("exit 3");
+
+			await expect(signer.getPublicKey()).rejects.toThrow(/code 3/);
+		});
+	});
+
+	describe("Create Signer From Env", () => {
+		it("should refuse to fall back to the devnet key outside test mode", () => {
+			expect(() => createSignerFromEnv({})).toThrow(
+				/No trusted signer configured/
+			);
+		});
+
+		it("should fall back to the devnet key in test mode", async () => {
+			const signer = createSignerFromEnv({ NODE_ENV: "test" });
+
+			expect(await signer.getPublicKey()).toBe(devnetSigner.publicKey);
+		});
+
+		it("should pick each backend from its variable", () => {
+			expect(
+				createSignerFromEnv({ TRUSTED_SIGNER_PRIVATE_KEY: DEVNET_SIGNER_PRIVATE_KEY })
+			).toBeInstanceOf(PrivateKeySigner);
+			expect(
+				createSignerFromEnv({ TRUSTED_SIGNER_SECRET_KEY: DEVNET_MNEMONIC })
+			).toBeInstanceOf(MnemonicSigner);
+			expect(
+				createSignerFromEnv({ TRUSTED_SIGNER_COMMAND: EXTERNAL_SIGNER_COMMAND })
+			).toBeInstanceOf(ExternalProcessSigner);
+		});
+
+		it("should require a password with a keystore", () => {
+			expect(() =>
+				createSignerFromEnv({ TRUSTED_SIGNER_KEYSTORE: "signer.json" })
+			).toThrow(/TRUSTED_SIGNER_KEYSTORE_PASSWORD/);
+		});
+	});
+});
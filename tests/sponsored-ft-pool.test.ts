@@ -3,7 +3,20 @@ import { Cl } from "@stacks/transactions";
 import {
 	generateSignature,
 	generateInvalidSignature,
+	keyring,
+	registerSigner,
+	registerTrustedSigner,
+	SIGNATURE_EXPIRY,
 } from "./helpers/signature-helper";
+import { PayoutTree } from "./helpers/payout-tree";
+import {
+	getRefundDeadline,
+	lockPool,
+	passRefundDeadline,
+	PoolStatus,
+	settlePool,
+} from "./helpers/pool-lifecycle";
+import { kickArgs } from "./helpers/moderation";
 
 const accounts = simnet.getAccounts();
 const deployer = simnet.deployer;
@@ -11,16 +24,37 @@ const wallet1 = accounts.get("wallet_1")!;
 const wallet2 = accounts.get("wallet_2")!;
 const wallet3 = accounts.get("wallet_3")!;
 
-describe("Sponsored FT Pool Contract Tests", () => {
-	beforeEach(() => {
+const contractId = `${deployer}.sponsored-ft-pool`;
+
+// SIP-010 tokens the whole suite runs against, with different decimals
+const POOL_TOKENS = [
+	{ tokenContract: "test-token", decimals: 6 },
+	{ tokenContract: "mock-token", decimals: 8 },
+];
+
+describe.each(POOL_TOKENS)("Sponsored FT Pool Contract Tests with $tokenContract", ({ tokenContract }) => {
+	const token = Cl.contractPrincipal(deployer, tokenContract);
+	const assetIdentifier = `${deployer}.${tokenContract}::${tokenContract}`;
+
+	const balanceOf = (address: string) =>
+		simnet.getAssetsMap().get(`.${tokenContract}.${tokenContract}`)?.get(address) ?? 0n;
+
+	const claimRefund = (player: string) =>
+		simnet.callPublicFn("sponsored-ft-pool", "claim-refund", [token], player);
+
+	beforeEach(async () => {
 		// Each test starts with a fresh simnet state
+		// Register the local test signer next to the production key
+		await registerTrustedSigner();
+		// Fix the pool to the token under test
+		simnet.callPublicFn("sponsored-ft-pool", "initialize", [token], deployer);
 		// Mint initial tokens to deployer for testing
-		simnet.callPublicFn("test-token", "mint-initial-supply", [], deployer);
+		simnet.callPublicFn(tokenContract, "mint-initial-supply", [], deployer);
 
 		// Transfer some tokens to wallets for testing
 		const tokenAmount = 10000000; // 10M tokens
 		simnet.callPublicFn(
-			"test-token",
+			tokenContract,
 			"transfer",
 			[
 				Cl.uint(tokenAmount),
@@ -31,7 +65,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			deployer
 		);
 		simnet.callPublicFn(
-			"test-token",
+			tokenContract,
 			"transfer",
 			[
 				Cl.uint(tokenAmount),
@@ -64,6 +98,16 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			expect(result.result).toBeBool(false);
 		});
 
+		it("should expose the pool size", () => {
+			const result = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-pool-size",
+				[],
+				deployer
+			);
+			expect(result.result).toBeUint(5000000);
+		});
+
 		it("should return false for player joined check initially", () => {
 			const result = simnet.callReadOnlyFn(
 				"sponsored-ft-pool",
@@ -80,7 +124,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"join",
-				[],
+				[token],
 				deployer
 			);
 
@@ -93,14 +137,14 @@ describe("Sponsored FT Pool Contract Tests", () => {
 					amount: "5000000",
 					sender: deployer,
 					recipient: `${deployer}.sponsored-ft-pool`,
-					asset_identifier: `${deployer}.test-token::test-token`,
+					asset_identifier: assetIdentifier,
 				},
 			});
 		});
 
 		it("should update contract state after deployer joins", () => {
 			// Deployer joins and funds pool
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
 
 			// Check total players
 			const totalPlayers = simnet.callReadOnlyFn(
@@ -132,20 +176,20 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 		it("should allow other players to join after deployer sponsors", () => {
 			// Deployer sponsors first
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
 
 			// Wallet1 joins for free
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"join",
-				[],
+				[token],
 				wallet1
 			);
 
 			expect(result.result).toBeOk(Cl.bool(true));
 
 			// No FT transfer event for regular players (they join for free)
-			expect(result.events).toEqual([]);
+			expect(result.events.filter((e) => e.event !== "print_event")).toEqual([]);
 
 			// Check total players is now 2
 			const totalPlayers = simnet.callReadOnlyFn(
@@ -159,13 +203,13 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 		it("should prevent players from joining twice", () => {
 			// Deployer joins first time
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
 
 			// Try to join again
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"join",
-				[],
+				[token],
 				deployer
 			);
 
@@ -176,7 +220,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"join",
-				[],
+				[token],
 				wallet1
 			);
 
@@ -185,13 +229,13 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 		it("should prevent deployer from sponsoring twice", () => {
 			// Deployer sponsors first time
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
 
 			// Reset and try to sponsor again (this would fail with ALREADY_JOINED)
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"join",
-				[],
+				[token],
 				deployer
 			);
 
@@ -201,44 +245,44 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 	describe("Claim Reward Function", () => {
 		beforeEach(() => {
-			// Setup: deployer sponsors and players join
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], deployer);
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], wallet1);
+			// Setup: deployer sponsors and players join, then the game ends
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			settlePool("sponsored-ft-pool");
 		});
 
 		it("should allow player to claim reward with valid signature", async () => {
 			const rewardAmount = 1000000; // 1M tokens
-			const contractId = `${deployer}.sponsored-ft-pool`;
 
 			// Generate valid signature
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[token, Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
 			expect(result.result).toBeOk(Cl.bool(true));
 
-			// Check events - fee transfer and reward transfer
+			// Only the net reward is transferred, the fee accrues in the pool
 			const feeAmount = Math.floor((rewardAmount * 2) / 100); // 2% fee
 			const netAmount = rewardAmount - feeAmount;
 
-			expect(result.events).toContainEqual({
-				event: "ft_transfer_event",
-				data: expect.objectContaining({
-					amount: feeAmount.toString(),
-					sender: `${deployer}.sponsored-ft-pool`,
-					recipient: "SP39V8Q7KATNA4B0ZKD6QNTMHDNH5VJXRBG7PB8G2",
-					asset_identifier: `${deployer}.test-token::test-token`,
-				}),
-			});
+			const accruedFees = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-accrued-fees",
+				[],
+				deployer
+			);
+			expect(accruedFees.result).toBeUint(feeAmount);
 
 			expect(result.events).toContainEqual({
 				event: "ft_transfer_event",
@@ -246,25 +290,26 @@ describe("Sponsored FT Pool Contract Tests", () => {
 					amount: netAmount.toString(),
 					sender: `${deployer}.sponsored-ft-pool`,
 					recipient: wallet1,
-					asset_identifier: `${deployer}.test-token::test-token`,
+					asset_identifier: assetIdentifier,
 				}),
 			});
 		});
 
 		it("should prevent non-joined player from claiming reward", async () => {
 			const rewardAmount = 1000000;
-			const contractId = `${deployer}.sponsored-ft-pool`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet2, // wallet2 hasn't joined
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet2, // wallet2 hasn't joined
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[token, Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet2
 			);
 
@@ -273,19 +318,20 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 		it("should prevent claiming reward twice", async () => {
 			const rewardAmount = 1000000;
-			const contractId = `${deployer}.sponsored-ft-pool`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			// First claim should succeed
 			const firstClaim = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[token, Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 			expect(firstClaim.result).toBeOk(Cl.bool(true));
@@ -294,7 +340,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			const secondClaim = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[token, Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 			expect(secondClaim.result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
@@ -307,7 +353,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(invalidSignature)],
+				[token, Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(invalidSignature)],
 				wallet1
 			);
 
@@ -316,19 +362,20 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 		it("should update claimed reward status", async () => {
 			const rewardAmount = 1000000;
-			const contractId = `${deployer}.sponsored-ft-pool`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			// Claim reward
 			simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[token, Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -344,18 +391,19 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 		it("should handle insufficient token balance", async () => {
 			const rewardAmount = 10000000; // 10M tokens (more than pool has)
-			const contractId = `${deployer}.sponsored-ft-pool`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[token, Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -366,38 +414,47 @@ describe("Sponsored FT Pool Contract Tests", () => {
 	describe("Leave Pool Function", () => {
 		beforeEach(() => {
 			// Setup: deployer sponsors and players join
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], deployer);
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], wallet1);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
 		});
 
 		it("should allow regular player to leave without refund", async () => {
-			const contractId = `${deployer}.sponsored-ft-pool`;
-
 			// Regular players use amount 0 for leaving (no refund)
-			const signature = await generateSignature(0, wallet1, contractId);
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
 			expect(result.result).toBeOk(Cl.bool(true));
 
 			// No FT transfer events (no refund for regular players)
-			expect(result.events).toEqual([]);
+			expect(result.events.filter((e) => e.event !== "print_event")).toEqual([]);
 		});
 
 		it("should update state after regular player leaves", async () => {
-			const contractId = `${deployer}.sponsored-ft-pool`;
-			const signature = await generateSignature(0, wallet1, contractId);
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			// Player leaves
 			simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -422,27 +479,34 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 		it("should allow sponsor to leave when pool is empty", async () => {
 			// First remove all other players
-			const contractId = `${deployer}.sponsored-ft-pool`;
-			const signature1 = await generateSignature(0, wallet1, contractId);
+			const signature1 = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 			simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"leave",
-				[Cl.bufferFromHex(signature1)],
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature1)],
 				wallet1
 			);
 
 			// Now sponsor can leave and get tokens back
 			const poolSize = 5000000; // POOL_SIZE constant
-			const sponsorSignature = await generateSignature(
-				poolSize,
-				deployer,
-				contractId
-			);
+			const sponsorSignature = await generateSignature({
+				action: "sponsor-withdraw",
+				amount: poolSize,
+				winner: deployer,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"leave",
-				[Cl.bufferFromHex(sponsorSignature)],
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(sponsorSignature)],
 				deployer
 			);
 
@@ -455,24 +519,25 @@ describe("Sponsored FT Pool Contract Tests", () => {
 					amount: "5000000",
 					sender: `${deployer}.sponsored-ft-pool`,
 					recipient: deployer,
-					asset_identifier: `${deployer}.test-token::test-token`,
+					asset_identifier: assetIdentifier,
 				},
 			});
 		});
 
 		it("should prevent sponsor from leaving when pool is not empty", async () => {
-			const contractId = `${deployer}.sponsored-ft-pool`;
 			const poolSize = 5000000;
-			const signature = await generateSignature(
-				poolSize,
-				deployer,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "sponsor-withdraw",
+				amount: poolSize,
+				winner: deployer,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				deployer
 			);
 
@@ -480,13 +545,18 @@ describe("Sponsored FT Pool Contract Tests", () => {
 		});
 
 		it("should prevent non-joined player from leaving", async () => {
-			const contractId = `${deployer}.sponsored-ft-pool`;
-			const signature = await generateSignature(0, wallet2, contractId);
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet2,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet2
 			);
 
@@ -497,23 +567,23 @@ describe("Sponsored FT Pool Contract Tests", () => {
 	describe("Kick Function", () => {
 		beforeEach(() => {
 			// Setup: deployer sponsors and players join
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], deployer);
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], wallet1);
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], wallet2);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet2);
 		});
 
 		it("should allow deployer to kick player", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"kick",
-				[Cl.standardPrincipal(wallet1)],
+				kickArgs(wallet1),
 				deployer
 			);
 
 			expect(result.result).toBeOk(Cl.bool(true));
 
 			// No refund events (kick doesn't provide refunds in sponsored FT pool)
-			expect(result.events).toEqual([]);
+			expect(result.events.filter((e) => e.event !== "print_event")).toEqual([]);
 		});
 
 		it("should update state after kick", () => {
@@ -521,7 +591,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"kick",
-				[Cl.standardPrincipal(wallet1)],
+				kickArgs(wallet1),
 				deployer
 			);
 
@@ -548,7 +618,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"kick",
-				[Cl.standardPrincipal(wallet2)],
+				kickArgs(wallet2),
 				wallet1
 			);
 
@@ -559,7 +629,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"kick",
-				[Cl.standardPrincipal(wallet3)], // wallet3 hasn't joined
+				kickArgs(wallet3), // wallet3 hasn't joined
 				deployer
 			);
 
@@ -570,7 +640,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"kick",
-				[Cl.standardPrincipal(deployer)],
+				kickArgs(deployer),
 				deployer
 			);
 
@@ -579,18 +649,20 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 		it("should prevent kicking player who claimed reward", async () => {
 			// Player claims reward first
+			settlePool("sponsored-ft-pool");
 			const rewardAmount = 1000000;
-			const contractId = `${deployer}.sponsored-ft-pool`;
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[token, Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -598,11 +670,12 @@ describe("Sponsored FT Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"kick",
-				[Cl.standardPrincipal(wallet1)],
+				kickArgs(wallet1),
 				deployer
 			);
 
-			expect(result.result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
+			// Kicks are only allowed while the pool is open
+			expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
 		});
 	});
 
@@ -610,7 +683,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 		it("should handle token minting and transfers correctly", () => {
 			// Check initial token balance after setup
 			const deployerBalance = simnet.callReadOnlyFn(
-				"test-token",
+				tokenContract,
 				"get-balance",
 				[Cl.standardPrincipal(deployer)],
 				deployer
@@ -619,7 +692,7 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 			// Check wallet1 received tokens in setup
 			const wallet1Balance = simnet.callReadOnlyFn(
-				"test-token",
+				tokenContract,
 				"get-balance",
 				[Cl.standardPrincipal(wallet1)],
 				deployer
@@ -629,11 +702,11 @@ describe("Sponsored FT Pool Contract Tests", () => {
 
 		it("should show correct token balance after pool sponsorship", () => {
 			// Sponsor pool
-			simnet.callPublicFn("sponsored-ft-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
 
 			// Check final balance exists and is wrapped in Ok()
 			const finalBalance = simnet.callReadOnlyFn(
-				"test-token",
+				tokenContract,
 				"get-balance",
 				[Cl.standardPrincipal(deployer)],
 				deployer
@@ -644,119 +717,1284 @@ describe("Sponsored FT Pool Contract Tests", () => {
 		});
 	});
 
-	describe("Integration Workflow", () => {
-		it("should handle complete sponsored FT pool workflow", async () => {
-			// 1. Deployer sponsors the pool with tokens
-			const sponsorResult = simnet.callPublicFn(
+	describe("Signed Message Actions", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+		});
+
+		it("should reject a leave signature used to claim a reward", async () => {
+			const leaveSignature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			settlePool("sponsored-ft-pool");
+
+			const claimResult = simnet.callPublicFn(
 				"sponsored-ft-pool",
-				"join",
-				[],
+				"claim-reward",
+				[token, Cl.uint(0), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(leaveSignature)],
+				wallet1
+			);
+			expect(claimResult.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should reject a claim signature used to leave", async () => {
+			const claimSignature = await generateSignature({
+				action: "claim",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const leaveResult = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"leave",
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(claimSignature)],
+				wallet1
+			);
+			expect(leaveResult.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should reject a sponsor-withdraw signature used to claim a reward", async () => {
+			const poolSize = 5000000;
+
+			const withdrawSignature = await generateSignature({
+				action: "sponsor-withdraw",
+				amount: poolSize,
+				winner: deployer,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			settlePool("sponsored-ft-pool");
+
+			const claimResult = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"claim-reward",
+				[token, Cl.uint(poolSize), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(withdrawSignature)],
 				deployer
 			);
-			expect(sponsorResult.result).toBeOk(Cl.bool(true));
+			expect(claimResult.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
 
-			// Check initial state after sponsoring
-			const totalPlayers = simnet.callReadOnlyFn(
+		it("should reject claim and leave signatures used for a sponsor withdrawal", async () => {
+			const poolSize = 5000000;
+
+			// Empty the pool so only the sponsor remains
+			simnet.callPublicFn(
 				"sponsored-ft-pool",
-				"get-total-players",
-				[],
+				"kick",
+				kickArgs(wallet1),
 				deployer
 			);
-			expect(totalPlayers.result).toBeUint(1);
 
-			const isSponsored = simnet.callReadOnlyFn(
+			for (const action of ["claim", "leave"] as const) {
+				const signature = await generateSignature({
+					action,
+					amount: poolSize,
+					winner: deployer,
+					contract: contractId,
+					nonce: 0,
+				});
+
+				const result = simnet.callPublicFn(
+					"sponsored-ft-pool",
+					"leave",
+					[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+					deployer
+				);
+				expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+			}
+		});
+	});
+
+	describe("Signature Replay Protection", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+		});
+
+		it("should start every player at nonce zero", () => {
+			const nonce = simnet.callReadOnlyFn(
 				"sponsored-ft-pool",
-				"is-pool-sponsored",
-				[],
+				"get-player-nonce",
+				[Cl.standardPrincipal(wallet1)],
 				deployer
 			);
-			expect(isSponsored.result).toBeBool(true);
+			expect(nonce.result).toBeUint(0);
+		});
 
-			// 2. Players join for free
-			const join1 = simnet.callPublicFn(
+		it("should reject replaying a leave signature after rejoining", async () => {
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const firstLeave = simnet.callPublicFn(
 				"sponsored-ft-pool",
-				"join",
-				[],
+				"leave",
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
-			expect(join1.result).toBeOk(Cl.bool(true));
+			expect(firstLeave.result).toBeOk(Cl.bool(true));
 
-			const join2 = simnet.callPublicFn(
+			const nonce = simnet.callReadOnlyFn(
 				"sponsored-ft-pool",
-				"join",
-				[],
-				wallet2
+				"get-player-nonce",
+				[Cl.standardPrincipal(wallet1)],
+				deployer
 			);
-			expect(join2.result).toBeOk(Cl.bool(true));
+			expect(nonce.result).toBeUint(1);
 
-			// Check state after players join
-			const totalPlayersAfterJoin = simnet.callReadOnlyFn(
+			// Rejoin and try to leave again with the same signature
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			const replay = simnet.callPublicFn(
 				"sponsored-ft-pool",
-				"get-total-players",
-				[],
-				deployer
+				"leave",
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
 			);
-			expect(totalPlayersAfterJoin.result).toBeUint(3);
+			expect(replay.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+
+			// A fresh signature for the next nonce is accepted
+			const freshSignature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 1,
+			});
+			const secondLeave = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"leave",
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(freshSignature)],
+				wallet1
+			);
+			expect(secondLeave.result).toBeOk(Cl.bool(true));
+		});
 
-			// 3. Winner claims token reward
-			const rewardAmount = 2000000; // 2M tokens reward
-			const contractId = `${deployer}.sponsored-ft-pool`;
+		it("should reject an expired leave signature", async () => {
+			const expiry = simnet.blockHeight + 2;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+				expiry,
+			});
+
+			simnet.mineEmptyBlocks(5);
+
+			const result = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"leave",
+				[token, Cl.uint(expiry), Cl.bufferFromHex(signature)],
+				wallet1
 			);
+			expect(result.result).toBeErr(Cl.uint(18)); // ERR_SIGNATURE_EXPIRED
+		});
 
-			const claimResult = simnet.callPublicFn(
+		it("should reject an expired claim signature", async () => {
+			const rewardAmount = 1000000;
+			const expiry = simnet.blockHeight + 2;
+
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+				expiry,
+			});
+
+			simnet.mineEmptyBlocks(5);
+			settlePool("sponsored-ft-pool");
+
+			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[token, Cl.uint(rewardAmount), Cl.uint(expiry), Cl.bufferFromHex(signature)],
 				wallet1
 			);
-			expect(claimResult.result).toBeOk(Cl.bool(true));
+			expect(result.result).toBeErr(Cl.uint(18)); // ERR_SIGNATURE_EXPIRED
+		});
 
-			// 4. Other player leaves without refund
-			const leaveSignature = await generateSignature(
-				0,
-				wallet2,
-				contractId
-			);
+		it("should reject a signature whose expiry was altered", async () => {
+			const expiry = simnet.blockHeight + 2;
 
-			const leaveResult = simnet.callPublicFn(
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+				expiry,
+			});
+
+			const result = simnet.callPublicFn(
 				"sponsored-ft-pool",
 				"leave",
-				[Cl.bufferFromHex(leaveSignature)],
-				wallet2
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
 			);
-			expect(leaveResult.result).toBeOk(Cl.bool(true));
+			expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+	});
 
-			// 5. Final state check - only deployer and winner remain
-			const finalPlayers = simnet.callReadOnlyFn(
+	describe("Signer Rotation", () => {
+		it("should accept claims signed by a newly registered key only", async () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			settlePool("sponsored-ft-pool");
+
+			const rewardAmount = 1000000;
+			const message = {
+				action: "claim" as const,
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: `${deployer}.sponsored-ft-pool`,
+				nonce: 0,
+			};
+
+			keyring.generate("rotated");
+			const signature = await generateSignature(message, "rotated");
+			const claim = () =>
+				simnet.callPublicFn(
+					"sponsored-ft-pool",
+					"claim-reward",
+					[
+						token,
+						Cl.uint(rewardAmount),
+						Cl.uint(SIGNATURE_EXPIRY),
+						Cl.bufferFromHex(signature),
+					],
+					wallet1
+				);
+
+			expect(claim().result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+
+			registerSigner(await keyring.getPublicKey("rotated"));
+			expect(claim().result).toBeOk(Cl.bool(true));
+		});
+	});
+
+	describe("Merkle Payouts", () => {
+		let tree: PayoutTree;
+
+		beforeEach(async () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet2);
+			lockPool("sponsored-ft-pool");
+
+			tree = new PayoutTree([
+				{ winner: wallet1, amount: 3000000 },
+				{ winner: wallet2, amount: 2000000 },
+			]);
+			const signature = await tree.sign(contractId, SIGNATURE_EXPIRY);
+			simnet.callPublicFn(
 				"sponsored-ft-pool",
-				"get-total-players",
-				[],
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(signature),
+				],
 				deployer
 			);
-			expect(finalPlayers.result).toBeUint(2);
+		});
 
-			// Check that winner has claimed reward
-			const hasClaimed = simnet.callReadOnlyFn(
+		const claimWithProof = (winner: string, amount: number, proof: string[]) =>
+			simnet.callPublicFn(
 				"sponsored-ft-pool",
-				"has-claimed-reward",
-				[Cl.standardPrincipal(wallet1)],
-				deployer
+				"claim-with-proof",
+				[token, Cl.uint(amount), Cl.list(proof.map((node) => Cl.bufferFromHex(node)))],
+				winner
 			);
-			expect(hasClaimed.result).toBeBool(true);
 
-			// Check wallet2 is no longer in pool
-			const wallet2Joined = simnet.callReadOnlyFn(
+		it("should pay a winner with a valid proof", () => {
+			const result = claimWithProof(wallet1, 3000000, tree.getProof(wallet1));
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual({
+				event: "ft_transfer_event",
+				data: expect.objectContaining({
+					amount: "2940000", // Net amount after 2% fee
+					sender: contractId,
+					recipient: wallet1,
+						asset_identifier: assetIdentifier,
+				}),
+			});
+		});
+
+		it("should reject a forged proof", () => {
+			const result = claimWithProof(wallet2, 3000000, tree.getProof(wallet2));
+			expect(result.result).toBeErr(Cl.uint(21)); // ERR_INVALID_PROOF
+		});
+
+		it("should prevent double claims", () => {
+			claimWithProof(wallet1, 3000000, tree.getProof(wallet1));
+
+			const result = claimWithProof(wallet1, 3000000, tree.getProof(wallet1));
+			expect(result.result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
+		});
+	});
+
+	describe("Player Limits", () => {
+		// Eight seats: the deployer and wallets 1 to 7, leaving wallet 8 out
+		const seated = [
+			deployer,
+			...[1, 2, 3, 4, 5, 6, 7].map((i) => accounts.get(`wallet_${i}`)!),
+		];
+		const latecomer = accounts.get("wallet_8")!;
+
+		it("should expose the limits", () => {
+			const min = simnet.callReadOnlyFn("sponsored-ft-pool", "get-min-players", [], deployer);
+			expect(min.result).toBeUint(2);
+
+			const max = simnet.callReadOnlyFn("sponsored-ft-pool", "get-max-players", [], deployer);
+			expect(max.result).toBeUint(8);
+		});
+
+		it("should refuse joins once every seat is taken", () => {
+			// Deployer sponsors, then players take the remaining seats
+			for (const player of seated) {
+				const join = simnet.callPublicFn("sponsored-ft-pool", "join", [token], player);
+				expect(join.result).toBeOk(Cl.bool(true));
+			}
+
+			const result = simnet.callPublicFn("sponsored-ft-pool", "join", [token], latecomer);
+			expect(result.result).toBeErr(Cl.uint(23)); // ERR_POOL_FULL
+
+			const totalPlayers = simnet.callReadOnlyFn(
 				"sponsored-ft-pool",
-				"has-player-joined",
-				[Cl.standardPrincipal(wallet2)],
+				"get-total-players",
+				[],
 				deployer
 			);
-			expect(wallet2Joined.result).toBeBool(false);
+			expect(totalPlayers.result).toBeUint(8);
+		});
+
+		it("should free a seat when a player leaves", async () => {
+			for (const player of seated) {
+				simnet.callPublicFn("sponsored-ft-pool", "join", [token], player);
+			}
+
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: `${deployer}.sponsored-ft-pool`,
+				nonce: 0,
+			});
+			simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"leave",
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+
+			const result = simnet.callPublicFn("sponsored-ft-pool", "join", [token], latecomer);
+			expect(result.result).toBeOk(Cl.bool(true));
+		});
+
+		it("should count the sponsor seat toward the minimum", () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+
+			const alone = lockPool("sponsored-ft-pool");
+			expect(alone.result).toBeErr(Cl.uint(24)); // ERR_NOT_ENOUGH_PLAYERS
+
+			// The sponsor and one player make the two players required
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			expect(lockPool("sponsored-ft-pool").result).toBeOk(Cl.bool(true));
+		});
+	});
+
+	describe("Pool Lifecycle", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+		});
+
+		const getStatus = () =>
+			simnet.callReadOnlyFn("sponsored-ft-pool", "get-pool-status", [], deployer).result;
+
+		// Drives the pool from open to the given state
+		const moveTo = (status: number) => {
+			if (status === PoolStatus.Locked) lockPool("sponsored-ft-pool");
+			if (status === PoolStatus.Settled) settlePool("sponsored-ft-pool");
+			if (status === PoolStatus.Cancelled) {
+				simnet.callPublicFn("sponsored-ft-pool", "cancel-pool", [], deployer);
+			}
+		};
+
+		it("should start open", () => {
+			expect(getStatus()).toBeUint(PoolStatus.Open);
+		});
+
+		it.each([
+			[PoolStatus.Open, "lock-pool", PoolStatus.Locked],
+			[PoolStatus.Open, "cancel-pool", PoolStatus.Cancelled],
+			[PoolStatus.Locked, "settle-pool", PoolStatus.Settled],
+			[PoolStatus.Locked, "cancel-pool", PoolStatus.Cancelled],
+		])("should allow moving from %i with %s", (from, fn, to) => {
+			moveTo(from);
+
+			const result = simnet.callPublicFn("sponsored-ft-pool", fn, [], deployer);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(getStatus()).toBeUint(to);
+		});
+
+		it.each([
+			[PoolStatus.Open, "settle-pool"],
+			[PoolStatus.Locked, "lock-pool"],
+			[PoolStatus.Settled, "lock-pool"],
+			[PoolStatus.Settled, "settle-pool"],
+			[PoolStatus.Settled, "cancel-pool"],
+			[PoolStatus.Cancelled, "lock-pool"],
+			[PoolStatus.Cancelled, "settle-pool"],
+			[PoolStatus.Cancelled, "cancel-pool"],
+		])("should refuse moving from %i with %s", (from, fn) => {
+			moveTo(from);
+
+			const result = simnet.callPublicFn("sponsored-ft-pool", fn, [], deployer);
+			expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			expect(getStatus()).toBeUint(from);
+		});
+
+		it.each(["lock-pool", "settle-pool", "cancel-pool"])(
+			"should only let the host call %s",
+			(fn) => {
+				const result = simnet.callPublicFn("sponsored-ft-pool", fn, [], wallet1);
+				expect(result.result).toBeErr(Cl.uint(17)); // ERR_UNAUTHORIZED
+			}
+		);
+
+		it.each([PoolStatus.Locked, PoolStatus.Settled, PoolStatus.Cancelled])(
+			"should refuse joins, departures and kicks in state %i",
+			async (status) => {
+				const signature = await generateSignature({
+					action: "leave",
+					amount: 0,
+					winner: wallet1,
+					contract: contractId,
+					nonce: 0,
+				});
+				moveTo(status);
+
+				const join = simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet2);
+				expect(join.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+
+				const leave = simnet.callPublicFn(
+					"sponsored-ft-pool",
+					"leave",
+					[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+					wallet1
+				);
+				expect(leave.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+
+				const kick = simnet.callPublicFn(
+					"sponsored-ft-pool",
+					"kick",
+					kickArgs(wallet1),
+					deployer
+				);
+				expect(kick.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it.each([PoolStatus.Open, PoolStatus.Locked, PoolStatus.Cancelled])(
+			"should refuse claims in state %i",
+			async (status) => {
+				const signature = await generateSignature({
+					action: "claim",
+					amount: 1000000,
+					winner: wallet1,
+					contract: contractId,
+					nonce: 0,
+				});
+				moveTo(status);
+
+				const result = simnet.callPublicFn(
+					"sponsored-ft-pool",
+					"claim-reward",
+					[token, Cl.uint(1000000), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+					wallet1
+				);
+				expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it.each([PoolStatus.Open, PoolStatus.Cancelled])(
+			"should refuse a payout root in state %i",
+			async (status) => {
+				const tree = new PayoutTree([{ winner: wallet1, amount: 1000000 }]);
+				const signature = await tree.sign(contractId, SIGNATURE_EXPIRY);
+				moveTo(status);
+
+				const result = simnet.callPublicFn(
+					"sponsored-ft-pool",
+					"submit-payout-root",
+					[
+						Cl.bufferFromHex(tree.root),
+						Cl.uint(SIGNATURE_EXPIRY),
+						Cl.bufferFromHex(signature),
+					],
+					deployer
+				);
+				expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it("should settle a locked pool when the payout root is posted", async () => {
+			const tree = new PayoutTree([{ winner: wallet1, amount: 1000000 }]);
+			const signature = await tree.sign(contractId, SIGNATURE_EXPIRY);
+			moveTo(PoolStatus.Locked);
+
+			const result = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(signature),
+				],
+				deployer
+			);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(getStatus()).toBeUint(PoolStatus.Settled);
+		});
+	});
+
+	describe("Cancel Refunds", () => {
+		const seated = [
+			deployer,
+			...[1, 2, 3, 4, 5, 6, 7].map((i) => accounts.get(`wallet_${i}`)!),
+		];
+
+		const joinAll = () => {
+			for (const player of seated) {
+				simnet.callPublicFn("sponsored-ft-pool", "join", [token], player);
+			}
+		};
+
+		it.each([PoolStatus.Open, PoolStatus.Locked])(
+			"should return the pool to the sponsor of a pool cancelled in state %i",
+			(status) => {
+				const before = seated.map(balanceOf);
+				joinAll();
+				if (status === PoolStatus.Locked) lockPool("sponsored-ft-pool");
+
+				const cancel = simnet.callPublicFn("sponsored-ft-pool", "cancel-pool", [], deployer);
+				expect(cancel.result).toBeOk(Cl.bool(true));
+
+				// Players joined for free and have nothing to take back
+				for (const player of seated.slice(1)) {
+					expect(claimRefund(player).result).toBeErr(Cl.uint(25)); // ERR_NOTHING_TO_REFUND
+				}
+
+				// The sponsor no longer waits for every player to leave
+				const refund = claimRefund(deployer);
+				expect(refund.result).toBeOk(Cl.bool(true));
+				expect(refund.events).toContainEqual({
+					event: "ft_transfer_event",
+					data: expect.objectContaining({
+						amount: "5000000", // POOL_SIZE
+						sender: contractId,
+						recipient: deployer,
+					}),
+				});
+
+				expect(seated.map(balanceOf)).toEqual(before);
+				expect(balanceOf(contractId)).toBe(0n);
+
+				const isSponsored = simnet.callReadOnlyFn(
+					"sponsored-ft-pool",
+					"is-pool-sponsored",
+					[],
+					deployer
+				);
+				expect(isSponsored.result).toBeBool(false);
+			}
+		);
+
+		it("should refund the sponsor only once", () => {
+			joinAll();
+			simnet.callPublicFn("sponsored-ft-pool", "cancel-pool", [], deployer);
+
+			expect(claimRefund(deployer).result).toBeOk(Cl.bool(true));
+			expect(claimRefund(deployer).result).toBeErr(Cl.uint(14)); // ERR_NOT_JOINED
+		});
+
+		it.each([PoolStatus.Open, PoolStatus.Locked, PoolStatus.Settled])(
+			"should refuse refunds in state %i",
+			(status) => {
+				joinAll();
+				if (status === PoolStatus.Locked) lockPool("sponsored-ft-pool");
+				if (status === PoolStatus.Settled) settlePool("sponsored-ft-pool");
+
+				expect(claimRefund(deployer).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+				expect(claimRefund(wallet1).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it("should refuse refunds to players who never joined", () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "cancel-pool", [], deployer);
+
+			expect(claimRefund(wallet1).result).toBeErr(Cl.uint(14)); // ERR_NOT_JOINED
+		});
+	});
+
+	describe("Refund Deadline", () => {
+		const joinPlayers = () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet2);
+		};
+
+		it("should refuse refunds up to the deadline", () => {
+			joinPlayers();
+			lockPool("sponsored-ft-pool");
+
+			// The next transaction runs at the deadline block itself
+			simnet.mineEmptyBlocks(getRefundDeadline("sponsored-ft-pool") - simnet.blockHeight - 1);
+
+			expect(claimRefund(deployer).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+		});
+
+		it.each([PoolStatus.Open, PoolStatus.Locked])(
+			"should let the sponsor reclaim a pool left in state %i past the deadline",
+			(status) => {
+				const before = balanceOf(deployer);
+				joinPlayers();
+				if (status === PoolStatus.Locked) lockPool("sponsored-ft-pool");
+				passRefundDeadline("sponsored-ft-pool");
+
+				expect(claimRefund(wallet1).result).toBeErr(Cl.uint(25)); // ERR_NOTHING_TO_REFUND
+				expect(claimRefund(deployer).result).toBeOk(Cl.bool(true));
+
+				expect(balanceOf(deployer)).toBe(before);
+				expect(balanceOf(contractId)).toBe(0n);
+			}
+		);
+
+		it("should refuse joins past the deadline", () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			passRefundDeadline("sponsored-ft-pool");
+
+			const result = simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			expect(result.result).toBeErr(Cl.uint(26)); // ERR_POOL_EXPIRED
+		});
+
+		it("should refuse to settle past the deadline", async () => {
+			joinPlayers();
+			lockPool("sponsored-ft-pool");
+			const tree = new PayoutTree([{ winner: wallet1, amount: 1000000 }]);
+			// The signer is back, but too late
+			const expiry = getRefundDeadline("sponsored-ft-pool") + 10;
+			const signature = await tree.sign(contractId, expiry);
+			passRefundDeadline("sponsored-ft-pool");
+
+			const settle = simnet.callPublicFn("sponsored-ft-pool", "settle-pool", [], deployer);
+			expect(settle.result).toBeErr(Cl.uint(26)); // ERR_POOL_EXPIRED
+
+			const submit = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(expiry),
+					Cl.bufferFromHex(signature),
+				],
+				deployer
+			);
+			expect(submit.result).toBeErr(Cl.uint(26)); // ERR_POOL_EXPIRED
+		});
+
+		it("should keep refunds closed for a settled pool", () => {
+			joinPlayers();
+			settlePool("sponsored-ft-pool");
+			passRefundDeadline("sponsored-ft-pool");
+
+			expect(claimRefund(deployer).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+		});
+	});
+
+	describe("Fee Schedule", () => {
+		const FEE_WALLET = "SP39V8Q7KATNA4B0ZKD6QNTMHDNH5VJXRBG7PB8G2";
+
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet2);
+		});
+
+		const claim = async (winner: string, amount: number | bigint) => {
+			const signature = await generateSignature({
+				action: "claim",
+				amount: Number(amount),
+				winner,
+				contract: contractId,
+				nonce: 0,
+			});
+			return simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"claim-reward",
+				[token, Cl.uint(amount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				winner
+			);
+		};
+
+		const getClaimFee = (amount: bigint) =>
+			simnet.callReadOnlyFn("sponsored-ft-pool", "get-claim-fee", [Cl.uint(amount)], deployer)
+				.result;
+
+		const getAccruedFees = () =>
+			simnet.callReadOnlyFn("sponsored-ft-pool", "get-accrued-fees", [], deployer).result;
+
+		it("should default to 200 basis points paid to the platform wallet", () => {
+			const bps = simnet.callReadOnlyFn("sponsored-ft-pool", "get-fee-bps", [], deployer);
+			expect(bps.result).toBeUint(200);
+
+			const wallet = simnet.callReadOnlyFn("sponsored-ft-pool", "get-fee-wallet", [], deployer);
+			expect(wallet.result).toBePrincipal(FEE_WALLET);
+		});
+
+		it.each([
+			[1n, 1n],
+			[49n, 1n],
+			[50n, 1n],
+			[51n, 2n],
+			[10000n, 200n],
+			[10001n, 201n],
+			[12345n, 247n],
+			[5000000n, 100000n],
+			// The largest uint: rounding up without overflowing
+			[2n ** 128n - 1n, ((2n ** 128n - 1n) * 200n + 9999n) / 10000n],
+		])("should charge a fee rounded up on %s", (amount, fee) => {
+			expect(getClaimFee(amount)).toBeUint(fee);
+		});
+
+		it("should charge nothing at 0 basis points", () => {
+			simnet.callPublicFn("sponsored-ft-pool", "set-fee-bps", [Cl.uint(0)], deployer);
+
+			expect(getClaimFee(1n)).toBeUint(0);
+			expect(getClaimFee(2n ** 128n - 1n)).toBeUint(0);
+		});
+
+		it("should let the host change the fee up to the cap", () => {
+			const set = simnet.callPublicFn("sponsored-ft-pool", "set-fee-bps", [Cl.uint(1000)], deployer);
+			expect(set.result).toBeOk(Cl.bool(true));
+			expect(getClaimFee(10000n)).toBeUint(1000);
+
+			const tooHigh = simnet.callPublicFn("sponsored-ft-pool", "set-fee-bps", [Cl.uint(1001)], deployer);
+			expect(tooHigh.result).toBeErr(Cl.uint(27)); // ERR_FEE_TOO_HIGH
+
+			const unauthorized = simnet.callPublicFn("sponsored-ft-pool", "set-fee-bps", [Cl.uint(0)], wallet1);
+			expect(unauthorized.result).toBeErr(Cl.uint(17)); // ERR_UNAUTHORIZED
+		});
+
+		it("should freeze the fee once the pool is locked", () => {
+			lockPool("sponsored-ft-pool");
+
+			const result = simnet.callPublicFn("sponsored-ft-pool", "set-fee-bps", [Cl.uint(0)], deployer);
+			expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+		});
+
+		it("should pay nothing on a reward no larger than its fee", async () => {
+			settlePool("sponsored-ft-pool");
+
+			const result = await claim(wallet1, 1);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events.filter((e) => e.event !== "print_event")).toHaveLength(0);
+			expect(getAccruedFees()).toBeUint(1);
+		});
+
+		it("should sweep every accrued fee in one transfer", async () => {
+			settlePool("sponsored-ft-pool");
+			await claim(wallet1, 4000000);
+			await claim(wallet2, 12345);
+			const accrued = 80247;
+			expect(getAccruedFees()).toBeUint(accrued);
+
+			// Anyone can sweep, the fees only go to the fee wallet
+			const sweep = simnet.callPublicFn("sponsored-ft-pool", "sweep-fees", [token], wallet3);
+			expect(sweep.result).toBeOk(Cl.uint(accrued));
+			expect(sweep.events.filter((e) => e.event !== "print_event")).toHaveLength(1);
+			expect(sweep.events[0]).toMatchObject({
+				event: "ft_transfer_event",
+				data: {
+					amount: String(accrued),
+					sender: contractId,
+					recipient: FEE_WALLET,
+						asset_identifier: assetIdentifier,
+				},
+			});
+			expect(getAccruedFees()).toBeUint(0);
+
+			const empty = simnet.callPublicFn("sponsored-ft-pool", "sweep-fees", [token], wallet3);
+			expect(empty.result).toBeOk(Cl.uint(0));
+			expect(empty.events).toHaveLength(0);
+		});
+
+		it("should sweep to the wallet set by the host", async () => {
+			const unauthorized = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"set-fee-wallet",
+				[Cl.standardPrincipal(wallet3)],
+				wallet1
+			);
+			expect(unauthorized.result).toBeErr(Cl.uint(17)); // ERR_UNAUTHORIZED
+
+			simnet.callPublicFn("sponsored-ft-pool", "set-fee-wallet", [Cl.standardPrincipal(wallet3)], deployer);
+			settlePool("sponsored-ft-pool");
+			await claim(wallet1, 4000000);
+
+			const sweep = simnet.callPublicFn("sponsored-ft-pool", "sweep-fees", [token], wallet3);
+			expect(sweep.events[0].data.recipient).toBe(wallet3);
+		});
+
+		it("should not pay rewards out of accrued fees", async () => {
+			settlePool("sponsored-ft-pool");
+			await claim(wallet1, 4000000);
+
+			// 1000000 is left for rewards, the rest of the balance is the fee
+			const result = await claim(wallet2, 1000001);
+			expect(result.result).toBeErr(Cl.uint(6)); // ERR_INSUFFICIENT_FUNDS
+		});
+	});
+
+	describe("Token Binding", () => {
+		const otherToken = Cl.contractPrincipal(deployer, "failing-token");
+
+		it("should be fixed to the token given at initialization", () => {
+			const result = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-pool-token",
+				[],
+				deployer
+			);
+			expect(result.result).toBeSome(token);
+		});
+
+		it("should not initialize twice", () => {
+			const result = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"initialize",
+				[otherToken],
+				deployer
+			);
+			expect(result.result).toBeErr(Cl.uint(29)); // ERR_ALREADY_INITIALIZED
+
+			const poolToken = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-pool-token",
+				[],
+				deployer
+			);
+			expect(poolToken.result).toBeSome(token);
+		});
+
+		it("should reject another token when joining", () => {
+			const result = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"join",
+				[otherToken],
+				deployer
+			);
+			expect(result.result).toBeErr(Cl.uint(28)); // ERR_INVALID_TOKEN
+		});
+
+		it("should reject another token when claiming", async () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			settlePool("sponsored-ft-pool");
+
+			const signature = await generateSignature({
+				action: "claim",
+				amount: 1000000,
+				winner: wallet1,
+				contract: `${deployer}.sponsored-ft-pool`,
+				nonce: 0,
+			});
+
+			const result = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"claim-reward",
+				[otherToken, Cl.uint(1000000), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(28)); // ERR_INVALID_TOKEN
+		});
+
+		it("should reject another token when refunding or sweeping fees", () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "cancel-pool", [], deployer);
+
+			const refund = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"claim-refund",
+				[otherToken],
+				deployer
+			);
+			expect(refund.result).toBeErr(Cl.uint(28)); // ERR_INVALID_TOKEN
+
+			const sweep = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"sweep-fees",
+				[otherToken],
+				wallet3
+			);
+			expect(sweep.result).toBeErr(Cl.uint(28)); // ERR_INVALID_TOKEN
+		});
+
+		it("should check the token and host before reading balances when closing", async () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			settlePool("sponsored-ft-pool");
+
+			// The claim fee accrues, so the other token's empty balance is below it
+			const signature = await generateSignature({
+				action: "claim",
+				amount: 1000000,
+				winner: wallet1,
+				contract: `${deployer}.sponsored-ft-pool`,
+				nonce: 0,
+			});
+			simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"claim-reward",
+				[token, Cl.uint(1000000), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+
+			const otherTokenClose = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"close-pool",
+				[otherToken],
+				deployer
+			);
+			expect(otherTokenClose.result).toBeErr(Cl.uint(28)); // ERR_INVALID_TOKEN
+
+			const nonHostClose = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"close-pool",
+				[token],
+				wallet1
+			);
+			expect(nonHostClose.result).toBeErr(Cl.uint(17)); // ERR_UNAUTHORIZED
+			expect(nonHostClose.events).toHaveLength(0);
+		});
+	});
+
+	describe("Integration Workflow", () => {
+		it("should handle complete sponsored FT pool workflow", async () => {
+			// 1. Deployer sponsors the pool with tokens
+			const sponsorResult = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"join",
+				[token],
+				deployer
+			);
+			expect(sponsorResult.result).toBeOk(Cl.bool(true));
+
+			// Check initial state after sponsoring
+			const totalPlayers = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-total-players",
+				[],
+				deployer
+			);
+			expect(totalPlayers.result).toBeUint(1);
+
+			const isSponsored = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"is-pool-sponsored",
+				[],
+				deployer
+			);
+			expect(isSponsored.result).toBeBool(true);
+
+			// 2. Players join for free
+			const join1 = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"join",
+				[token],
+				wallet1
+			);
+			expect(join1.result).toBeOk(Cl.bool(true));
+
+			const join2 = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"join",
+				[token],
+				wallet2
+			);
+			expect(join2.result).toBeOk(Cl.bool(true));
+
+			// Check state after players join
+			const totalPlayersAfterJoin = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-total-players",
+				[],
+				deployer
+			);
+			expect(totalPlayersAfterJoin.result).toBeUint(3);
+
+			// 3. A player leaves before the game starts, without refund
+			const leaveSignature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet2,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const leaveResult = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"leave",
+				[token, Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(leaveSignature)],
+				wallet2
+			);
+			expect(leaveResult.result).toBeOk(Cl.bool(true));
+
+			// 4. Host locks the pool for the game, then settles it
+			expect(lockPool("sponsored-ft-pool").result).toBeOk(Cl.bool(true));
+			expect(
+				simnet.callPublicFn("sponsored-ft-pool", "settle-pool", [], deployer).result
+			).toBeOk(Cl.bool(true));
+
+			const status = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-pool-status",
+				[],
+				deployer
+			);
+			expect(status.result).toBeUint(PoolStatus.Settled);
+
+			// 5. Winner claims token reward
+			const rewardAmount = 2000000; // 2M tokens reward
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const claimResult = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"claim-reward",
+				[token, Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(claimResult.result).toBeOk(Cl.bool(true));
+
+			// 6. Final state check - only deployer and winner remain
+			const finalPlayers = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-total-players",
+				[],
+				deployer
+			);
+			expect(finalPlayers.result).toBeUint(2);
+
+			// Check that winner has claimed reward
+			const hasClaimed = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"has-claimed-reward",
+				[Cl.standardPrincipal(wallet1)],
+				deployer
+			);
+			expect(hasClaimed.result).toBeBool(true);
+
+			// Check wallet2 is no longer in pool
+			const wallet2Joined = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"has-player-joined",
+				[Cl.standardPrincipal(wallet2)],
+				deployer
+			);
+			expect(wallet2Joined.result).toBeBool(false);
+		});
+	});
+});
+
+describe("Sponsored FT Pool Token Setup", () => {
+	const token = Cl.contractPrincipal(deployer, "failing-token");
+
+	beforeEach(async () => {
+		await registerTrustedSigner();
+	});
+
+	it("should reject joins before initialization", () => {
+		const result = simnet.callPublicFn(
+			"sponsored-ft-pool",
+			"join",
+			[Cl.contractPrincipal(deployer, "test-token")],
+			deployer
+		);
+		expect(result.result).toBeErr(Cl.uint(28)); // ERR_INVALID_TOKEN
+	});
+
+	it("should only let the deployer initialize", () => {
+		const result = simnet.callPublicFn(
+			"sponsored-ft-pool",
+			"initialize",
+			[token],
+			wallet1
+		);
+		expect(result.result).toBeErr(Cl.uint(17)); // ERR_UNAUTHORIZED
+
+		const poolToken = simnet.callReadOnlyFn(
+			"sponsored-ft-pool",
+			"get-pool-token",
+			[],
+			deployer
+		);
+		expect(poolToken.result).toBeNone();
+	});
+
+	describe("Failing Token", () => {
+		const setTransfersEnabled = (enabled: boolean) =>
+			simnet.callPublicFn(
+				"failing-token",
+				"set-transfers-enabled",
+				[Cl.bool(enabled)],
+				deployer
+			);
+
+		const balanceOf = (address: string) =>
+			simnet.getAssetsMap().get(".failing-token.failing-token")?.get(address) ??
+			0n;
+
+		const claim = async (amount: number) => {
+			const signature = await generateSignature({
+				action: "claim",
+				amount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+			return simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"claim-reward",
+				[token, Cl.uint(amount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+		};
+
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-ft-pool", "initialize", [token], deployer);
+			simnet.callPublicFn("failing-token", "mint-initial-supply", [], deployer);
+		});
+
+		it("should not fund the pool when the sponsor's transfer fails", () => {
+			setTransfersEnabled(false);
+
+			const result = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"join",
+				[token],
+				deployer
+			);
+			expect(result.result).toBeErr(Cl.uint(7)); // ERR_TRANSFER_FAILED
+
+			const sponsored = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"is-pool-sponsored",
+				[],
+				deployer
+			);
+			expect(sponsored.result).toBeBool(false);
+		});
+
+		it("should keep the claim open when the reward transfer fails", async () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			settlePool("sponsored-ft-pool");
+			setTransfersEnabled(false);
+
+			const result = await claim(1000000);
+			expect(result.result).toBeErr(Cl.uint(7)); // ERR_TRANSFER_FAILED
+			expect(balanceOf(contractId)).toBe(5000000n);
+
+			const claimed = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"has-claimed-reward",
+				[Cl.standardPrincipal(wallet1)],
+				deployer
+			);
+			expect(claimed.result).toBeBool(false);
+
+			const fees = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-accrued-fees",
+				[],
+				deployer
+			);
+			expect(fees.result).toBeUint(0);
+
+			setTransfersEnabled(true);
+			expect((await claim(1000000)).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should keep the sponsor seated when the refund transfer fails", () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "cancel-pool", [], deployer);
+			setTransfersEnabled(false);
+
+			const result = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"claim-refund",
+				[token],
+				deployer
+			);
+			expect(result.result).toBeErr(Cl.uint(7)); // ERR_TRANSFER_FAILED
+			expect(balanceOf(contractId)).toBe(5000000n);
+
+			const joined = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"has-player-joined",
+				[Cl.standardPrincipal(deployer)],
+				deployer
+			);
+			expect(joined.result).toBeBool(true);
+		});
+
+		it("should keep the fees accrued when the sweep transfer fails", async () => {
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], deployer);
+			simnet.callPublicFn("sponsored-ft-pool", "join", [token], wallet1);
+			settlePool("sponsored-ft-pool");
+			expect((await claim(1000000)).result).toBeOk(Cl.bool(true));
+			setTransfersEnabled(false);
+
+			const result = simnet.callPublicFn(
+				"sponsored-ft-pool",
+				"sweep-fees",
+				[token],
+				wallet3
+			);
+			expect(result.result).toBeErr(Cl.uint(8)); // ERR_FEE_TRANSFER_FAILED
+
+			const fees = simnet.callReadOnlyFn(
+				"sponsored-ft-pool",
+				"get-accrued-fees",
+				[],
+				deployer
+			);
+			expect(fees.result).toBeUint(20000);
 		});
 	});
 });
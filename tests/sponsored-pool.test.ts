@@ -1,9 +1,23 @@
 import { describe, expect, it, beforeEach } from "vitest";
-import { Cl } from "@stacks/transactions";
+import { Cl, ClarityValue } from "@stacks/transactions";
 import {
 	generateSignature,
 	generateInvalidSignature,
+	keyring,
+	registerSigner,
+	registerTrustedSigner,
+	SIGNATURE_EXPIRY,
 } from "./helpers/signature-helper";
+import { PayoutTree } from "./helpers/payout-tree";
+import { decodePoolEvents } from "./helpers/pool-events";
+import {
+	getRefundDeadline,
+	lockPool,
+	passRefundDeadline,
+	PoolStatus,
+	settlePool,
+} from "./helpers/pool-lifecycle";
+import { kickArgs } from "./helpers/moderation";
 
 const accounts = simnet.getAccounts();
 const deployer = simnet.deployer;
@@ -11,9 +25,19 @@ const wallet1 = accounts.get("wallet_1")!;
 const wallet2 = accounts.get("wallet_2")!;
 const wallet3 = accounts.get("wallet_3")!;
 
+const contractId = `${deployer}.sponsored-pool`;
+
+const balanceOf = (address: string) =>
+	simnet.getAssetsMap().get("STX")?.get(address) ?? 0n;
+
+const claimRefund = (player: string) =>
+	simnet.callPublicFn("sponsored-pool", "claim-refund", [], player);
+
 describe("Sponsored Pool Contract Tests", () => {
-	beforeEach(() => {
+	beforeEach(async () => {
 		// Each test starts with a fresh simnet state
+		// Register the local test signer next to the production key
+		await registerTrustedSigner();
 	});
 
 	describe("Initial State", () => {
@@ -47,6 +71,16 @@ describe("Sponsored Pool Contract Tests", () => {
 			expect(result.result).toBeBool(false);
 		});
 
+		it("should expose the pool size", () => {
+			const result = simnet.callReadOnlyFn(
+				"sponsored-pool",
+				"get-pool-size",
+				[],
+				deployer
+			);
+			expect(result.result).toBeUint(50000000);
+		});
+
 		it("should return false for player joined check initially", () => {
 			const result = simnet.callReadOnlyFn(
 				"sponsored-pool",
@@ -137,7 +171,7 @@ describe("Sponsored Pool Contract Tests", () => {
 			expect(result.result).toBeOk(Cl.bool(true));
 
 			// No STX transfer event for regular players (they join for free)
-			expect(result.events).toEqual([]);
+			expect(result.events.filter((e) => e.event !== "print_event")).toEqual([]);
 
 			// Check total players is now 2
 			const totalPlayers = simnet.callReadOnlyFn(
@@ -202,40 +236,41 @@ describe("Sponsored Pool Contract Tests", () => {
 
 	describe("Claim Reward Function", () => {
 		beforeEach(() => {
-			// Setup: deployer sponsors and players join
+			// Setup: deployer sponsors and players join, then the game ends
 			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
 			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+			settlePool("sponsored-pool");
 		});
 
 		it("should allow player to claim reward with valid signature", async () => {
 			const rewardAmount = 10000000; // 10 STX
-			const contractId = `${deployer}.sponsored-pool`;
 
 			// Generate valid signature
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
 			expect(result.result).toBeOk(Cl.bool(true));
 
-			// Check events - fee transfer and reward transfer
-			expect(result.events).toContainEqual({
-				event: "stx_transfer_event",
-				data: expect.objectContaining({
-					amount: "200000", // 2% fee
-					sender: `${deployer}.sponsored-pool`,
-					recipient: "SP39V8Q7KATNA4B0ZKD6QNTMHDNH5VJXRBG7PB8G2",
-				}),
-			});
+			// Only the net reward is transferred, the fee accrues in the pool
+			const accruedFees = simnet.callReadOnlyFn(
+				"sponsored-pool",
+				"get-accrued-fees",
+				[],
+				deployer
+			);
+			expect(accruedFees.result).toBeUint(200000); // 2% fee
 
 			expect(result.events).toContainEqual({
 				event: "stx_transfer_event",
@@ -249,18 +284,19 @@ describe("Sponsored Pool Contract Tests", () => {
 
 		it("should prevent non-joined player from claiming reward", async () => {
 			const rewardAmount = 10000000;
-			const contractId = `${deployer}.sponsored-pool`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet2, // wallet2 hasn't joined
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet2, // wallet2 hasn't joined
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet2
 			);
 
@@ -269,19 +305,20 @@ describe("Sponsored Pool Contract Tests", () => {
 
 		it("should prevent claiming reward twice", async () => {
 			const rewardAmount = 10000000;
-			const contractId = `${deployer}.sponsored-pool`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			// First claim should succeed
 			const firstClaim = simnet.callPublicFn(
 				"sponsored-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 			expect(firstClaim.result).toBeOk(Cl.bool(true));
@@ -290,7 +327,7 @@ describe("Sponsored Pool Contract Tests", () => {
 			const secondClaim = simnet.callPublicFn(
 				"sponsored-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 			expect(secondClaim.result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
@@ -303,7 +340,7 @@ describe("Sponsored Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(invalidSignature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(invalidSignature)],
 				wallet1
 			);
 
@@ -312,19 +349,20 @@ describe("Sponsored Pool Contract Tests", () => {
 
 		it("should update claimed reward status", async () => {
 			const rewardAmount = 10000000;
-			const contractId = `${deployer}.sponsored-pool`;
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			// Claim reward
 			simnet.callPublicFn(
 				"sponsored-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -347,33 +385,42 @@ describe("Sponsored Pool Contract Tests", () => {
 		});
 
 		it("should allow regular player to leave without refund", async () => {
-			const contractId = `${deployer}.sponsored-pool`;
-
 			// Regular players use amount 0 for leaving (no refund)
-			const signature = await generateSignature(0, wallet1, contractId);
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
 			expect(result.result).toBeOk(Cl.bool(true));
 
 			// No STX transfer events (no refund for regular players)
-			expect(result.events).toEqual([]);
+			expect(result.events.filter((e) => e.event !== "print_event")).toEqual([]);
 		});
 
 		it("should update state after regular player leaves", async () => {
-			const contractId = `${deployer}.sponsored-pool`;
-			const signature = await generateSignature(0, wallet1, contractId);
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			// Player leaves
 			simnet.callPublicFn(
 				"sponsored-pool",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -407,26 +454,33 @@ describe("Sponsored Pool Contract Tests", () => {
 
 		it("should allow sponsor to leave when pool is empty", async () => {
 			// First remove all other players
-			const contractId = `${deployer}.sponsored-pool`;
-			const signature1 = await generateSignature(0, wallet1, contractId);
+			const signature1 = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 			simnet.callPublicFn(
 				"sponsored-pool",
 				"leave",
-				[Cl.bufferFromHex(signature1)],
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature1)],
 				wallet1
 			);
 
 			// Now sponsor can leave and get funds back
-			const sponsorSignature = await generateSignature(
-				50000000,
-				deployer,
-				contractId
-			);
+			const sponsorSignature = await generateSignature({
+				action: "sponsor-withdraw",
+				amount: 50000000,
+				winner: deployer,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"leave",
-				[Cl.bufferFromHex(sponsorSignature)],
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(sponsorSignature)],
 				deployer
 			);
 
@@ -445,17 +499,18 @@ describe("Sponsored Pool Contract Tests", () => {
 		});
 
 		it("should prevent sponsor from leaving when pool is not empty", async () => {
-			const contractId = `${deployer}.sponsored-pool`;
-			const signature = await generateSignature(
-				50000000,
-				deployer,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "sponsor-withdraw",
+				amount: 50000000,
+				winner: deployer,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				deployer
 			);
 
@@ -463,13 +518,18 @@ describe("Sponsored Pool Contract Tests", () => {
 		});
 
 		it("should prevent non-joined player from leaving", async () => {
-			const contractId = `${deployer}.sponsored-pool`;
-			const signature = await generateSignature(0, wallet2, contractId);
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet2,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"leave",
-				[Cl.bufferFromHex(signature)],
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet2
 			);
 
@@ -489,14 +549,14 @@ describe("Sponsored Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"kick",
-				[Cl.standardPrincipal(wallet1)],
+				kickArgs(wallet1),
 				deployer
 			);
 
 			expect(result.result).toBeOk(Cl.bool(true));
 
 			// No refund events (kick doesn't provide refunds in sponsored pool)
-			expect(result.events).toEqual([]);
+			expect(result.events.filter((e) => e.event !== "print_event")).toEqual([]);
 		});
 
 		it("should update state after kick", () => {
@@ -504,7 +564,7 @@ describe("Sponsored Pool Contract Tests", () => {
 			simnet.callPublicFn(
 				"sponsored-pool",
 				"kick",
-				[Cl.standardPrincipal(wallet1)],
+				kickArgs(wallet1),
 				deployer
 			);
 
@@ -531,7 +591,7 @@ describe("Sponsored Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"kick",
-				[Cl.standardPrincipal(wallet2)],
+				kickArgs(wallet2),
 				wallet1
 			);
 
@@ -542,7 +602,7 @@ describe("Sponsored Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"kick",
-				[Cl.standardPrincipal(wallet3)], // wallet3 hasn't joined
+				kickArgs(wallet3), // wallet3 hasn't joined
 				deployer
 			);
 
@@ -553,7 +613,7 @@ describe("Sponsored Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"kick",
-				[Cl.standardPrincipal(deployer)],
+				kickArgs(deployer),
 				deployer
 			);
 
@@ -562,18 +622,20 @@ describe("Sponsored Pool Contract Tests", () => {
 
 		it("should prevent kicking player who claimed reward", async () => {
 			// Player claims reward first
+			settlePool("sponsored-pool");
 			const rewardAmount = 10000000;
-			const contractId = `${deployer}.sponsored-pool`;
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
-			);
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
 			simnet.callPublicFn(
 				"sponsored-pool",
 				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
 				wallet1
 			);
 
@@ -581,14 +643,1095 @@ describe("Sponsored Pool Contract Tests", () => {
 			const result = simnet.callPublicFn(
 				"sponsored-pool",
 				"kick",
+				kickArgs(wallet1),
+				deployer
+			);
+
+			// Kicks are only allowed while the pool is open
+			expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+		});
+	});
+
+	describe("Signed Message Actions", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+		});
+
+		it("should reject a leave signature used to claim a reward", async () => {
+			const leaveSignature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			settlePool("sponsored-pool");
+
+			const claimResult = simnet.callPublicFn(
+				"sponsored-pool",
+				"claim-reward",
+				[Cl.uint(0), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(leaveSignature)],
+				wallet1
+			);
+			expect(claimResult.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should reject a claim signature used to leave", async () => {
+			const claimSignature = await generateSignature({
+				action: "claim",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const leaveResult = simnet.callPublicFn(
+				"sponsored-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(claimSignature)],
+				wallet1
+			);
+			expect(leaveResult.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should reject a sponsor-withdraw signature used to claim a reward", async () => {
+			const poolSize = 50000000;
+
+			const withdrawSignature = await generateSignature({
+				action: "sponsor-withdraw",
+				amount: poolSize,
+				winner: deployer,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			settlePool("sponsored-pool");
+
+			const claimResult = simnet.callPublicFn(
+				"sponsored-pool",
+				"claim-reward",
+				[Cl.uint(poolSize), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(withdrawSignature)],
+				deployer
+			);
+			expect(claimResult.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should reject claim and leave signatures used for a sponsor withdrawal", async () => {
+			const poolSize = 50000000;
+
+			// Empty the pool so only the sponsor remains
+			simnet.callPublicFn(
+				"sponsored-pool",
+				"kick",
+				kickArgs(wallet1),
+				deployer
+			);
+
+			for (const action of ["claim", "leave"] as const) {
+				const signature = await generateSignature({
+					action,
+					amount: poolSize,
+					winner: deployer,
+					contract: contractId,
+					nonce: 0,
+				});
+
+				const result = simnet.callPublicFn(
+					"sponsored-pool",
+					"leave",
+					[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+					deployer
+				);
+				expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+			}
+		});
+	});
+
+	describe("Signature Replay Protection", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+		});
+
+		it("should start every player at nonce zero", () => {
+			const nonce = simnet.callReadOnlyFn(
+				"sponsored-pool",
+				"get-player-nonce",
 				[Cl.standardPrincipal(wallet1)],
 				deployer
 			);
+			expect(nonce.result).toBeUint(0);
+		});
+
+		it("should reject replaying a leave signature after rejoining", async () => {
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
+			const firstLeave = simnet.callPublicFn(
+				"sponsored-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(firstLeave.result).toBeOk(Cl.bool(true));
+
+			const nonce = simnet.callReadOnlyFn(
+				"sponsored-pool",
+				"get-player-nonce",
+				[Cl.standardPrincipal(wallet1)],
+				deployer
+			);
+			expect(nonce.result).toBeUint(1);
+
+			// Rejoin and try to leave again with the same signature
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+			const replay = simnet.callPublicFn(
+				"sponsored-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(replay.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+
+			// A fresh signature for the next nonce is accepted
+			const freshSignature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 1,
+			});
+			const secondLeave = simnet.callPublicFn(
+				"sponsored-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(freshSignature)],
+				wallet1
+			);
+			expect(secondLeave.result).toBeOk(Cl.bool(true));
+		});
+
+		it("should reject an expired leave signature", async () => {
+			const expiry = simnet.blockHeight + 2;
+
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+				expiry,
+			});
+
+			simnet.mineEmptyBlocks(5);
+
+			const result = simnet.callPublicFn(
+				"sponsored-pool",
+				"leave",
+				[Cl.uint(expiry), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(18)); // ERR_SIGNATURE_EXPIRED
+		});
+
+		it("should reject an expired claim signature", async () => {
+			const rewardAmount = 1000000;
+			const expiry = simnet.blockHeight + 2;
+
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+				expiry,
+			});
+
+			simnet.mineEmptyBlocks(5);
+			settlePool("sponsored-pool");
+
+			const result = simnet.callPublicFn(
+				"sponsored-pool",
+				"claim-reward",
+				[Cl.uint(rewardAmount), Cl.uint(expiry), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(18)); // ERR_SIGNATURE_EXPIRED
+		});
+
+		it("should reject a signature whose expiry was altered", async () => {
+			const expiry = simnet.blockHeight + 2;
+
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+				expiry,
+			});
+
+			const result = simnet.callPublicFn(
+				"sponsored-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+	});
+
+	describe("Signer Rotation", () => {
+		it("should accept claims signed by a newly registered key only", async () => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+			settlePool("sponsored-pool");
+
+			const rewardAmount = 1000000;
+			const message = {
+				action: "claim" as const,
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: `${deployer}.sponsored-pool`,
+				nonce: 0,
+			};
+
+			keyring.generate("rotated");
+			const signature = await generateSignature(message, "rotated");
+			const claim = () =>
+				simnet.callPublicFn(
+					"sponsored-pool",
+					"claim-reward",
+					[
+						Cl.uint(rewardAmount),
+						Cl.uint(SIGNATURE_EXPIRY),
+						Cl.bufferFromHex(signature),
+					],
+					wallet1
+				);
+
+			expect(claim().result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+
+			registerSigner(await keyring.getPublicKey("rotated"));
+			expect(claim().result).toBeOk(Cl.bool(true));
+		});
+	});
+
+	describe("Merkle Payouts", () => {
+		let tree: PayoutTree;
+
+		beforeEach(async () => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet2);
+			lockPool("sponsored-pool");
+
+			tree = new PayoutTree([
+				{ winner: wallet1, amount: 30000000 },
+				{ winner: wallet2, amount: 20000000 },
+			]);
+			const signature = await tree.sign(contractId, SIGNATURE_EXPIRY);
+			simnet.callPublicFn(
+				"sponsored-pool",
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(signature),
+				],
+				deployer
+			);
+		});
+
+		const claimWithProof = (winner: string, amount: number, proof: string[]) =>
+			simnet.callPublicFn(
+				"sponsored-pool",
+				"claim-with-proof",
+				[Cl.uint(amount), Cl.list(proof.map((node) => Cl.bufferFromHex(node)))],
+				winner
+			);
+
+		it("should pay a winner with a valid proof", () => {
+			const result = claimWithProof(wallet1, 30000000, tree.getProof(wallet1));
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual({
+				event: "stx_transfer_event",
+				data: expect.objectContaining({
+					amount: "29400000", // Net amount after 2% fee
+					sender: contractId,
+					recipient: wallet1,
+				}),
+			});
+		});
+
+		it("should reject a forged proof", () => {
+			const result = claimWithProof(wallet2, 30000000, tree.getProof(wallet2));
+			expect(result.result).toBeErr(Cl.uint(21)); // ERR_INVALID_PROOF
+		});
+
+		it("should prevent double claims", () => {
+			claimWithProof(wallet1, 30000000, tree.getProof(wallet1));
+
+			const result = claimWithProof(wallet1, 30000000, tree.getProof(wallet1));
 			expect(result.result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
 		});
 	});
 
+	describe("Player Limits", () => {
+		// Eight seats: the deployer and wallets 1 to 7, leaving wallet 8 out
+		const seated = [
+			deployer,
+			...[1, 2, 3, 4, 5, 6, 7].map((i) => accounts.get(`wallet_${i}`)!),
+		];
+		const latecomer = accounts.get("wallet_8")!;
+
+		it("should expose the limits", () => {
+			const min = simnet.callReadOnlyFn("sponsored-pool", "get-min-players", [], deployer);
+			expect(min.result).toBeUint(2);
+
+			const max = simnet.callReadOnlyFn("sponsored-pool", "get-max-players", [], deployer);
+			expect(max.result).toBeUint(8);
+		});
+
+		it("should refuse joins once every seat is taken", () => {
+			// Deployer sponsors, then players take the remaining seats
+			for (const player of seated) {
+				const join = simnet.callPublicFn("sponsored-pool", "join", [], player);
+				expect(join.result).toBeOk(Cl.bool(true));
+			}
+
+			const result = simnet.callPublicFn("sponsored-pool", "join", [], latecomer);
+			expect(result.result).toBeErr(Cl.uint(23)); // ERR_POOL_FULL
+
+			const totalPlayers = simnet.callReadOnlyFn(
+				"sponsored-pool",
+				"get-total-players",
+				[],
+				deployer
+			);
+			expect(totalPlayers.result).toBeUint(8);
+		});
+
+		it("should free a seat when a player leaves", async () => {
+			for (const player of seated) {
+				simnet.callPublicFn("sponsored-pool", "join", [], player);
+			}
+
+			const signature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet1,
+				contract: `${deployer}.sponsored-pool`,
+				nonce: 0,
+			});
+			simnet.callPublicFn(
+				"sponsored-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+
+			const result = simnet.callPublicFn("sponsored-pool", "join", [], latecomer);
+			expect(result.result).toBeOk(Cl.bool(true));
+		});
+
+		it("should count the sponsor seat toward the minimum", () => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+
+			const alone = lockPool("sponsored-pool");
+			expect(alone.result).toBeErr(Cl.uint(24)); // ERR_NOT_ENOUGH_PLAYERS
+
+			// The sponsor and one player make the two players required
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+			expect(lockPool("sponsored-pool").result).toBeOk(Cl.bool(true));
+		});
+	});
+
+	describe("Pool Lifecycle", () => {
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+		});
+
+		const getStatus = () =>
+			simnet.callReadOnlyFn("sponsored-pool", "get-pool-status", [], deployer).result;
+
+		// Drives the pool from open to the given state
+		const moveTo = (status: number) => {
+			if (status === PoolStatus.Locked) lockPool("sponsored-pool");
+			if (status === PoolStatus.Settled) settlePool("sponsored-pool");
+			if (status === PoolStatus.Cancelled) {
+				simnet.callPublicFn("sponsored-pool", "cancel-pool", [], deployer);
+			}
+		};
+
+		it("should start open", () => {
+			expect(getStatus()).toBeUint(PoolStatus.Open);
+		});
+
+		it.each([
+			[PoolStatus.Open, "lock-pool", PoolStatus.Locked],
+			[PoolStatus.Open, "cancel-pool", PoolStatus.Cancelled],
+			[PoolStatus.Locked, "settle-pool", PoolStatus.Settled],
+			[PoolStatus.Locked, "cancel-pool", PoolStatus.Cancelled],
+		])("should allow moving from %i with %s", (from, fn, to) => {
+			moveTo(from);
+
+			const result = simnet.callPublicFn("sponsored-pool", fn, [], deployer);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(getStatus()).toBeUint(to);
+		});
+
+		it.each([
+			[PoolStatus.Open, "settle-pool"],
+			[PoolStatus.Locked, "lock-pool"],
+			[PoolStatus.Settled, "lock-pool"],
+			[PoolStatus.Settled, "settle-pool"],
+			[PoolStatus.Settled, "cancel-pool"],
+			[PoolStatus.Cancelled, "lock-pool"],
+			[PoolStatus.Cancelled, "settle-pool"],
+			[PoolStatus.Cancelled, "cancel-pool"],
+		])("should refuse moving from %i with %s", (from, fn) => {
+			moveTo(from);
+
+			const result = simnet.callPublicFn("sponsored-pool", fn, [], deployer);
+			expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			expect(getStatus()).toBeUint(from);
+		});
+
+		it.each(["lock-pool", "settle-pool", "cancel-pool"])(
+			"should only let the host call %s",
+			(fn) => {
+				const result = simnet.callPublicFn("sponsored-pool", fn, [], wallet1);
+				expect(result.result).toBeErr(Cl.uint(17)); // ERR_UNAUTHORIZED
+			}
+		);
+
+		it.each([PoolStatus.Locked, PoolStatus.Settled, PoolStatus.Cancelled])(
+			"should refuse joins, departures and kicks in state %i",
+			async (status) => {
+				const signature = await generateSignature({
+					action: "leave",
+					amount: 0,
+					winner: wallet1,
+					contract: contractId,
+					nonce: 0,
+				});
+				moveTo(status);
+
+				const join = simnet.callPublicFn("sponsored-pool", "join", [], wallet2);
+				expect(join.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+
+				const leave = simnet.callPublicFn(
+					"sponsored-pool",
+					"leave",
+					[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+					wallet1
+				);
+				expect(leave.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+
+				const kick = simnet.callPublicFn(
+					"sponsored-pool",
+					"kick",
+					kickArgs(wallet1),
+					deployer
+				);
+				expect(kick.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it.each([PoolStatus.Open, PoolStatus.Locked, PoolStatus.Cancelled])(
+			"should refuse claims in state %i",
+			async (status) => {
+				const signature = await generateSignature({
+					action: "claim",
+					amount: 1000000,
+					winner: wallet1,
+					contract: contractId,
+					nonce: 0,
+				});
+				moveTo(status);
+
+				const result = simnet.callPublicFn(
+					"sponsored-pool",
+					"claim-reward",
+					[Cl.uint(1000000), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+					wallet1
+				);
+				expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it.each([PoolStatus.Open, PoolStatus.Cancelled])(
+			"should refuse a payout root in state %i",
+			async (status) => {
+				const tree = new PayoutTree([{ winner: wallet1, amount: 1000000 }]);
+				const signature = await tree.sign(contractId, SIGNATURE_EXPIRY);
+				moveTo(status);
+
+				const result = simnet.callPublicFn(
+					"sponsored-pool",
+					"submit-payout-root",
+					[
+						Cl.bufferFromHex(tree.root),
+						Cl.uint(SIGNATURE_EXPIRY),
+						Cl.bufferFromHex(signature),
+					],
+					deployer
+				);
+				expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it("should settle a locked pool when the payout root is posted", async () => {
+			const tree = new PayoutTree([{ winner: wallet1, amount: 1000000 }]);
+			const signature = await tree.sign(contractId, SIGNATURE_EXPIRY);
+			moveTo(PoolStatus.Locked);
+
+			const result = simnet.callPublicFn(
+				"sponsored-pool",
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(signature),
+				],
+				deployer
+			);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(getStatus()).toBeUint(PoolStatus.Settled);
+		});
+	});
+
+	describe("Cancel Refunds", () => {
+		const seated = [
+			deployer,
+			...[1, 2, 3, 4, 5, 6, 7].map((i) => accounts.get(`wallet_${i}`)!),
+		];
+
+		const joinAll = () => {
+			for (const player of seated) {
+				simnet.callPublicFn("sponsored-pool", "join", [], player);
+			}
+		};
+
+		it.each([PoolStatus.Open, PoolStatus.Locked])(
+			"should return the pool to the sponsor of a pool cancelled in state %i",
+			(status) => {
+				const before = seated.map(balanceOf);
+				joinAll();
+				if (status === PoolStatus.Locked) lockPool("sponsored-pool");
+
+				const cancel = simnet.callPublicFn("sponsored-pool", "cancel-pool", [], deployer);
+				expect(cancel.result).toBeOk(Cl.bool(true));
+
+				// Players joined for free and have nothing to take back
+				for (const player of seated.slice(1)) {
+					expect(claimRefund(player).result).toBeErr(Cl.uint(25)); // ERR_NOTHING_TO_REFUND
+				}
+
+				// The sponsor no longer waits for every player to leave
+				const refund = claimRefund(deployer);
+				expect(refund.result).toBeOk(Cl.bool(true));
+				expect(refund.events).toContainEqual({
+					event: "stx_transfer_event",
+					data: expect.objectContaining({
+						amount: "50000000", // POOL_SIZE
+						sender: contractId,
+						recipient: deployer,
+					}),
+				});
+
+				expect(seated.map(balanceOf)).toEqual(before);
+				expect(balanceOf(contractId)).toBe(0n);
+
+				const isSponsored = simnet.callReadOnlyFn(
+					"sponsored-pool",
+					"is-pool-sponsored",
+					[],
+					deployer
+				);
+				expect(isSponsored.result).toBeBool(false);
+			}
+		);
+
+		it("should refund the sponsor only once", () => {
+			joinAll();
+			simnet.callPublicFn("sponsored-pool", "cancel-pool", [], deployer);
+
+			expect(claimRefund(deployer).result).toBeOk(Cl.bool(true));
+			expect(claimRefund(deployer).result).toBeErr(Cl.uint(14)); // ERR_NOT_JOINED
+		});
+
+		it.each([PoolStatus.Open, PoolStatus.Locked, PoolStatus.Settled])(
+			"should refuse refunds in state %i",
+			(status) => {
+				joinAll();
+				if (status === PoolStatus.Locked) lockPool("sponsored-pool");
+				if (status === PoolStatus.Settled) settlePool("sponsored-pool");
+
+				expect(claimRefund(deployer).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+				expect(claimRefund(wallet1).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			}
+		);
+
+		it("should refuse refunds to players who never joined", () => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-pool", "cancel-pool", [], deployer);
+
+			expect(claimRefund(wallet1).result).toBeErr(Cl.uint(14)); // ERR_NOT_JOINED
+		});
+	});
+
+	describe("Refund Deadline", () => {
+		const joinPlayers = () => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet2);
+		};
+
+		it("should refuse refunds up to the deadline", () => {
+			joinPlayers();
+			lockPool("sponsored-pool");
+
+			// The next transaction runs at the deadline block itself
+			simnet.mineEmptyBlocks(getRefundDeadline("sponsored-pool") - simnet.blockHeight - 1);
+
+			expect(claimRefund(deployer).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+		});
+
+		it.each([PoolStatus.Open, PoolStatus.Locked])(
+			"should let the sponsor reclaim a pool left in state %i past the deadline",
+			(status) => {
+				const before = balanceOf(deployer);
+				joinPlayers();
+				if (status === PoolStatus.Locked) lockPool("sponsored-pool");
+				passRefundDeadline("sponsored-pool");
+
+				expect(claimRefund(wallet1).result).toBeErr(Cl.uint(25)); // ERR_NOTHING_TO_REFUND
+				expect(claimRefund(deployer).result).toBeOk(Cl.bool(true));
+
+				expect(balanceOf(deployer)).toBe(before);
+				expect(balanceOf(contractId)).toBe(0n);
+			}
+		);
+
+		it("should refuse joins past the deadline", () => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			passRefundDeadline("sponsored-pool");
+
+			const result = simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+			expect(result.result).toBeErr(Cl.uint(26)); // ERR_POOL_EXPIRED
+		});
+
+		it("should refuse to settle past the deadline", async () => {
+			joinPlayers();
+			lockPool("sponsored-pool");
+			const tree = new PayoutTree([{ winner: wallet1, amount: 1000000 }]);
+			// The signer is back, but too late
+			const expiry = getRefundDeadline("sponsored-pool") + 10;
+			const signature = await tree.sign(contractId, expiry);
+			passRefundDeadline("sponsored-pool");
+
+			const settle = simnet.callPublicFn("sponsored-pool", "settle-pool", [], deployer);
+			expect(settle.result).toBeErr(Cl.uint(26)); // ERR_POOL_EXPIRED
+
+			const submit = simnet.callPublicFn(
+				"sponsored-pool",
+				"submit-payout-root",
+				[
+					Cl.bufferFromHex(tree.root),
+					Cl.uint(expiry),
+					Cl.bufferFromHex(signature),
+				],
+				deployer
+			);
+			expect(submit.result).toBeErr(Cl.uint(26)); // ERR_POOL_EXPIRED
+		});
+
+		it("should keep refunds closed for a settled pool", () => {
+			joinPlayers();
+			settlePool("sponsored-pool");
+			passRefundDeadline("sponsored-pool");
+
+			expect(claimRefund(deployer).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+		});
+	});
+
+	describe("Fee Schedule", () => {
+		const FEE_WALLET = "SP39V8Q7KATNA4B0ZKD6QNTMHDNH5VJXRBG7PB8G2";
+
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet2);
+		});
+
+		const claim = async (winner: string, amount: number | bigint) => {
+			const signature = await generateSignature({
+				action: "claim",
+				amount: Number(amount),
+				winner,
+				contract: contractId,
+				nonce: 0,
+			});
+			return simnet.callPublicFn(
+				"sponsored-pool",
+				"claim-reward",
+				[Cl.uint(amount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				winner
+			);
+		};
+
+		const getClaimFee = (amount: bigint) =>
+			simnet.callReadOnlyFn("sponsored-pool", "get-claim-fee", [Cl.uint(amount)], deployer)
+				.result;
+
+		const getAccruedFees = () =>
+			simnet.callReadOnlyFn("sponsored-pool", "get-accrued-fees", [], deployer).result;
+
+		it("should default to 200 basis points paid to the platform wallet", () => {
+			const bps = simnet.callReadOnlyFn("sponsored-pool", "get-fee-bps", [], deployer);
+			expect(bps.result).toBeUint(200);
+
+			const wallet = simnet.callReadOnlyFn("sponsored-pool", "get-fee-wallet", [], deployer);
+			expect(wallet.result).toBePrincipal(FEE_WALLET);
+		});
+
+		it.each([
+			[1n, 1n],
+			[49n, 1n],
+			[50n, 1n],
+			[51n, 2n],
+			[10000n, 200n],
+			[10001n, 201n],
+			[12345n, 247n],
+			[5000000n, 100000n],
+			// The largest uint: rounding up without overflowing
+			[2n ** 128n - 1n, ((2n ** 128n - 1n) * 200n + 9999n) / 10000n],
+		])("should charge a fee rounded up on %s", (amount, fee) => {
+			expect(getClaimFee(amount)).toBeUint(fee);
+		});
+
+		it("should charge nothing at 0 basis points", () => {
+			simnet.callPublicFn("sponsored-pool", "set-fee-bps", [Cl.uint(0)], deployer);
+
+			expect(getClaimFee(1n)).toBeUint(0);
+			expect(getClaimFee(2n ** 128n - 1n)).toBeUint(0);
+		});
+
+		it("should let the host change the fee up to the cap", () => {
+			const set = simnet.callPublicFn("sponsored-pool", "set-fee-bps", [Cl.uint(1000)], deployer);
+			expect(set.result).toBeOk(Cl.bool(true));
+			expect(getClaimFee(10000n)).toBeUint(1000);
+
+			const tooHigh = simnet.callPublicFn("sponsored-pool", "set-fee-bps", [Cl.uint(1001)], deployer);
+			expect(tooHigh.result).toBeErr(Cl.uint(27)); // ERR_FEE_TOO_HIGH
+
+			const unauthorized = simnet.callPublicFn("sponsored-pool", "set-fee-bps", [Cl.uint(0)], wallet1);
+			expect(unauthorized.result).toBeErr(Cl.uint(17)); // ERR_UNAUTHORIZED
+		});
+
+		it("should freeze the fee once the pool is locked", () => {
+			lockPool("sponsored-pool");
+
+			const result = simnet.callPublicFn("sponsored-pool", "set-fee-bps", [Cl.uint(0)], deployer);
+			expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+		});
+
+		it("should pay nothing on a reward no larger than its fee", async () => {
+			settlePool("sponsored-pool");
+
+			const result = await claim(wallet1, 1);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events.filter((e) => e.event !== "print_event")).toHaveLength(0);
+			expect(getAccruedFees()).toBeUint(1);
+		});
+
+		it("should sweep every accrued fee in one transfer", async () => {
+			settlePool("sponsored-pool");
+			await claim(wallet1, 40000000);
+			await claim(wallet2, 12345);
+			const accrued = 800247;
+			expect(getAccruedFees()).toBeUint(accrued);
+
+			// Anyone can sweep, the fees only go to the fee wallet
+			const sweep = simnet.callPublicFn("sponsored-pool", "sweep-fees", [], wallet3);
+			expect(sweep.result).toBeOk(Cl.uint(accrued));
+			expect(sweep.events.filter((e) => e.event !== "print_event")).toHaveLength(1);
+			expect(sweep.events[0]).toMatchObject({
+				event: "stx_transfer_event",
+				data: {
+					amount: String(accrued),
+					sender: contractId,
+					recipient: FEE_WALLET,
+				},
+			});
+			expect(getAccruedFees()).toBeUint(0);
+
+			const empty = simnet.callPublicFn("sponsored-pool", "sweep-fees", [], wallet3);
+			expect(empty.result).toBeOk(Cl.uint(0));
+			expect(empty.events).toHaveLength(0);
+		});
+
+		it("should sweep to the wallet set by the host", async () => {
+			const unauthorized = simnet.callPublicFn(
+				"sponsored-pool",
+				"set-fee-wallet",
+				[Cl.standardPrincipal(wallet3)],
+				wallet1
+			);
+			expect(unauthorized.result).toBeErr(Cl.uint(17)); // ERR_UNAUTHORIZED
+
+			simnet.callPublicFn("sponsored-pool", "set-fee-wallet", [Cl.standardPrincipal(wallet3)], deployer);
+			settlePool("sponsored-pool");
+			await claim(wallet1, 40000000);
+
+			const sweep = simnet.callPublicFn("sponsored-pool", "sweep-fees", [], wallet3);
+			expect(sweep.events[0].data.recipient).toBe(wallet3);
+		});
+
+		it("should not pay rewards out of accrued fees", async () => {
+			settlePool("sponsored-pool");
+			await claim(wallet1, 40000000);
+
+			// 10000000 is left for rewards, the rest of the balance is the fee
+			const result = await claim(wallet2, 10000001);
+			expect(result.result).toBeErr(Cl.uint(6)); // ERR_INSUFFICIENT_FUNDS
+		});
+	});
+
+	describe("Co-Sponsorship", () => {
+		const wallet5 = accounts.get("wallet_5")!;
+		const wallet6 = accounts.get("wallet_6")!;
+
+		const sponsorPool = (sponsor: string, amount: number) =>
+			simnet.callPublicFn("sponsored-pool", "sponsor-pool", [Cl.uint(amount)], sponsor);
+
+		const readOnly = (fn: string, args: ClarityValue[] = []) =>
+			simnet.callReadOnlyFn("sponsored-pool", fn, args, deployer).result;
+
+		const getShare = (sponsor: string) =>
+			readOnly("get-sponsor-share", [Cl.standardPrincipal(sponsor)]);
+
+		const refundedAmount = (result: ReturnType<typeof claimRefund>) => {
+			expect(result.result).toBeOk(Cl.bool(true));
+			const transfer = result.events.find((e) => e.event === "stx_transfer_event");
+			return BigInt(transfer?.data.amount ?? 0);
+		};
+
+		// Winner claims leave the pool with an amount that doesn't split evenly
+		const settleAndClaim = async (reward: number) => {
+			settlePool("sponsored-pool");
+			const signature = await generateSignature({
+				action: "claim",
+				amount: reward,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
+			simnet.callPublicFn(
+				"sponsored-pool",
+				"claim-reward",
+				[Cl.uint(reward), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
+			);
+			return simnet.callPublicFn("sponsored-pool", "close-pool", [], deployer);
+		};
+
+		beforeEach(() => {
+			simnet.callPublicFn("sponsored-pool", "join", [], deployer);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet1);
+			simnet.callPublicFn("sponsored-pool", "join", [], wallet2);
+		});
+
+		it("should let anyone add any amount to the pool", () => {
+			const result = sponsorPool(wallet5, 1234567);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(decodePoolEvents(result.events)).toMatchObject([
+				{ event: "sponsor", player: wallet5, amount: 1234567n },
+			]);
+			expect(result.events).toContainEqual({
+				event: "stx_transfer_event",
+				data: expect.objectContaining({
+					amount: "1234567",
+					sender: wallet5,
+					recipient: contractId,
+				}),
+			});
+			expect(readOnly("get-sponsor-contribution", [Cl.standardPrincipal(wallet5)])).toBeUint(
+				1234567
+			);
+			expect(readOnly("get-sponsor-contribution", [Cl.standardPrincipal(deployer)])).toBeUint(
+				50000000
+			);
+			expect(readOnly("get-total-contributions")).toBeUint(51234567);
+			expect(readOnly("get-pool-balance")).toBeUint(51234567);
+
+			// Sponsoring takes no seat
+			expect(readOnly("has-player-joined", [Cl.standardPrincipal(wallet5)])).toBeBool(false);
+		});
+
+		it("should add up repeated contributions", () => {
+			sponsorPool(wallet5, 1000000);
+			sponsorPool(wallet5, 2000000);
+			sponsorPool(deployer, 500000);
+
+			expect(readOnly("get-sponsor-contribution", [Cl.standardPrincipal(wallet5)])).toBeUint(
+				3000000
+			);
+			expect(readOnly("get-sponsor-contribution", [Cl.standardPrincipal(deployer)])).toBeUint(
+				50500000
+			);
+			expect(readOnly("get-total-contributions")).toBeUint(53500000);
+		});
+
+		it("should reject empty and late sponsorships", () => {
+			expect(sponsorPool(wallet5, 0).result).toBeErr(Cl.uint(11)); // ERR_INVALID_AMOUNT
+
+			lockPool("sponsored-pool");
+			expect(sponsorPool(wallet5, 1000000).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+			expect(readOnly("get-total-contributions")).toBeUint(50000000);
+		});
+
+		it("should keep the host from leaving with co-sponsors' funds", async () => {
+			for (const player of [wallet1, wallet2]) {
+				simnet.callPublicFn("sponsored-pool", "kick", kickArgs(player), deployer);
+			}
+			sponsorPool(wallet5, 1000000);
+			const signature = await generateSignature({
+				action: "sponsor-withdraw",
+				amount: 50000000,
+				winner: deployer,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const result = simnet.callPublicFn(
+				"sponsored-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				deployer
+			);
+			expect(result.result).toBeErr(Cl.uint(16)); // ERR_POOL_NOT_EMPTY
+		});
+
+		it("should return a cancelled pool pro rata to contributions", () => {
+			sponsorPool(wallet5, 25000000);
+			sponsorPool(wallet6, 25000000);
+			const before = [deployer, wallet5, wallet6].map(balanceOf);
+			simnet.callPublicFn("sponsored-pool", "cancel-pool", [], deployer);
+
+			expect(getShare(wallet5)).toBeUint(25000000);
+			expect(refundedAmount(claimRefund(wallet5))).toBe(25000000n);
+			expect(refundedAmount(claimRefund(deployer))).toBe(50000000n);
+			expect(refundedAmount(claimRefund(wallet6))).toBe(25000000n);
+
+			expect([deployer, wallet5, wallet6].map(balanceOf)).toStrictEqual([
+				before[0] + 50000000n,
+				before[1] + 25000000n,
+				before[2] + 25000000n,
+			]);
+			expect(balanceOf(contractId)).toBe(0n);
+		});
+
+		it("should split the remainder of a closed pool pro rata", async () => {
+			sponsorPool(wallet5, 50000000);
+			// 100000000 contributed, 40000000 left after the claim
+			expect((await settleAndClaim(60000000)).result).toBeOk(Cl.bool(true));
+
+			expect(getShare(deployer)).toBeUint(20000000);
+			expect(getShare(wallet5)).toBeUint(20000000);
+			expect(refundedAmount(claimRefund(deployer))).toBe(20000000n);
+			expect(refundedAmount(claimRefund(wallet5))).toBe(20000000n);
+
+			// Only the accrued fee is left
+			expect(readOnly("get-pool-balance")).toBeUint(0);
+			expect(balanceOf(contractId)).toBe(1200000n);
+		});
+
+		it.each([
+			["the host first", [deployer, wallet5, wallet6], [40000000n, 2n, 7n]],
+			["the host last", [wallet6, wallet5, deployer], [5n, 2n, 40000002n]],
+		])(
+			"should give the rounding dust to the last sponsor out, with %s",
+			async (_, order, refunds) => {
+				sponsorPool(wallet5, 3);
+				sponsorPool(wallet6, 7);
+				// 50000010 contributed, 40000009 left: 3 and 7 parts don't divide it
+				await settleAndClaim(10000001);
+
+				expect(order.map((sponsor) => refundedAmount(claimRefund(sponsor)))).toStrictEqual(
+					refunds
+				);
+				expect(refunds.reduce((sum, refund) => sum + refund, 0n)).toBe(40000009n);
+				expect(readOnly("get-pool-balance")).toBeUint(0);
+			}
+		);
+
+		it("should round a share down to nothing without failing", async () => {
+			sponsorPool(wallet5, 1);
+			// 50000001 contributed, 5 left
+			await settleAndClaim(49999996);
+
+			expect(getShare(wallet5)).toBeUint(0);
+			const refund = claimRefund(wallet5);
+			expect(refundedAmount(refund)).toBe(0n);
+			expect(refundedAmount(claimRefund(deployer))).toBe(5n);
+		});
+
+		it("should close only a settled pool, and only as the host", async () => {
+			expect(simnet.callPublicFn("sponsored-pool", "close-pool", [], deployer).result).toBeErr(
+				Cl.uint(22) // ERR_INVALID_POOL_STATUS
+			);
+			settlePool("sponsored-pool");
+			expect(simnet.callPublicFn("sponsored-pool", "close-pool", [], wallet1).result).toBeErr(
+				Cl.uint(17) // ERR_UNAUTHORIZED
+			);
+			expect(claimRefund(deployer).result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+		});
+
+		it("should end claims once closed", async () => {
+			const closed = await settleAndClaim(1000000);
+			expect(decodePoolEvents(closed.events)).toMatchObject([
+				{ event: "close", player: deployer, amount: 0n },
+			]);
+			expect(readOnly("get-pool-status")).toBeUint(PoolStatus.Closed);
+
+			const signature = await generateSignature({
+				action: "claim",
+				amount: 1000000,
+				winner: wallet2,
+				contract: contractId,
+				nonce: 0,
+			});
+			const result = simnet.callPublicFn(
+				"sponsored-pool",
+				"claim-reward",
+				[Cl.uint(1000000), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet2
+			);
+			expect(result.result).toBeErr(Cl.uint(22)); // ERR_INVALID_POOL_STATUS
+		});
+
+		it("should refund each sponsor once", () => {
+			sponsorPool(wallet5, 1000000);
+			simnet.callPublicFn("sponsored-pool", "cancel-pool", [], deployer);
+
+			expect(claimRefund(wallet5).result).toBeOk(Cl.bool(true));
+			expect(claimRefund(wallet5).result).toBeErr(Cl.uint(14)); // ERR_NOT_JOINED
+			expect(getShare(wallet5)).toBeUint(0);
+			expect(claimRefund(wallet1).result).toBeErr(Cl.uint(25)); // ERR_NOTHING_TO_REFUND
+		});
+	});
+
 	describe("Integration Workflow", () => {
 		it("should handle complete sponsored pool workflow", async () => {
 			// 1. Deployer sponsors the pool
@@ -651,40 +1794,56 @@ describe("Sponsored Pool Contract Tests", () => {
 			);
 			expect(totalPlayersAfterJoin.result).toBeUint(3);
 
-			// 3. Winner claims reward
-			const rewardAmount = 30000000; // 30 STX reward
-			const contractId = `${deployer}.sponsored-pool`;
+			// 3. A player leaves before the game starts, without refund
+			const leaveSignature = await generateSignature({
+				action: "leave",
+				amount: 0,
+				winner: wallet2,
+				contract: contractId,
+				nonce: 0,
+			});
 
-			const signature = await generateSignature(
-				rewardAmount,
-				wallet1,
-				contractId
+			const leaveResult = simnet.callPublicFn(
+				"sponsored-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(leaveSignature)],
+				wallet2
 			);
+			expect(leaveResult.result).toBeOk(Cl.bool(true));
 
-			const claimResult = simnet.callPublicFn(
+			// 4. Host locks the pool for the game, then settles it
+			expect(lockPool("sponsored-pool").result).toBeOk(Cl.bool(true));
+			expect(
+				simnet.callPublicFn("sponsored-pool", "settle-pool", [], deployer).result
+			).toBeOk(Cl.bool(true));
+
+			const status = simnet.callReadOnlyFn(
 				"sponsored-pool",
-				"claim-reward",
-				[Cl.uint(rewardAmount), Cl.bufferFromHex(signature)],
-				wallet1
+				"get-pool-status",
+				[],
+				deployer
 			);
-			expect(claimResult.result).toBeOk(Cl.bool(true));
+			expect(status.result).toBeUint(PoolStatus.Settled);
 
-			// 4. Other player leaves without refund
-			const leaveSignature = await generateSignature(
-				0,
-				wallet2,
-				contractId
-			);
+			// 5. Winner claims reward
+			const rewardAmount = 30000000; // 30 STX reward
+			const signature = await generateSignature({
+				action: "claim",
+				amount: rewardAmount,
+				winner: wallet1,
+				contract: contractId,
+				nonce: 0,
+			});
 
-			const leaveResult = simnet.callPublicFn(
+			const claimResult = simnet.callPublicFn(
 				"sponsored-pool",
-				"leave",
-				[Cl.bufferFromHex(leaveSignature)],
-				wallet2
+				"claim-reward",
+				[Cl.uint(rewardAmount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet1
 			);
-			expect(leaveResult.result).toBeOk(Cl.bool(true));
+			expect(claimResult.result).toBeOk(Cl.bool(true));
 
-			// 5. Final state check - only deployer and winner remain
+			// 6. Final state check - only deployer and winner remain
 			const finalPlayers = simnet.callReadOnlyFn(
 				"sponsored-pool",
 				"get-total-players",
@@ -0,0 +1,202 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+import {
+	generateSignature,
+	registerTrustedSigner,
+	SIGNATURE_EXPIRY,
+} from "./helpers/signature-helper";
+import { settlePool } from "./helpers/pool-lifecycle";
+import {
+	fundSbtc,
+	getSbtcBalance,
+	sbtcTransferEvent,
+} from "./helpers/sbtc";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+const faucet = accounts.get("faucet")!;
+
+const contractId = `${deployer}.sponsored-sbtc-pool`;
+const POOL_SIZE = 50000000;
+const FEE_WALLET = "SP39V8Q7KATNA4B0ZKD6QNTMHDNH5VJXRBG7PB8G2";
+
+const join = (player: string) =>
+	simnet.callPublicFn("sponsored-sbtc-pool", "join", [], player);
+
+const getPoolBalance = () =>
+	simnet.callReadOnlyFn("sponsored-sbtc-pool", "get-pool-balance", [], deployer)
+		.result;
+
+const claimReward = async (winner: string, amount: number) => {
+	const signature = await generateSignature({
+		action: "claim",
+		amount,
+		winner,
+		contract: contractId,
+		nonce: 0,
+	});
+	return simnet.callPublicFn(
+		"sponsored-sbtc-pool",
+		"claim-reward",
+		[Cl.uint(amount), Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+		winner
+	);
+};
+
+describe("Sponsored sBTC Pool Contract Tests", () => {
+	beforeEach(async () => {
+		// Each test starts with a fresh simnet state
+		// Register the local test signer next to the production key
+		await registerTrustedSigner();
+	});
+
+	describe("Join Pool Function", () => {
+		it("should fund the pool with sBTC from the sponsor", () => {
+			const before = getSbtcBalance(deployer);
+
+			const result = join(deployer);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual(
+				sbtcTransferEvent(POOL_SIZE, deployer, contractId)
+			);
+			expect(getSbtcBalance(deployer)).toBe(before - BigInt(POOL_SIZE));
+			expect(getPoolBalance()).toBeUint(POOL_SIZE);
+		});
+
+		it("should let players join for free", () => {
+			join(deployer);
+			fundSbtc(faucet, getSbtcBalance(wallet1), wallet1);
+
+			const result = join(wallet1);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events.filter((e) => e.event !== "print_event")).toHaveLength(0);
+			expect(getPoolBalance()).toBeUint(POOL_SIZE);
+		});
+
+		it("should not be funded by a sponsor without enough sBTC", () => {
+			fundSbtc(faucet, getSbtcBalance(deployer) - BigInt(POOL_SIZE) + 1n, deployer);
+
+			expect(join(deployer).result).toBeErr(Cl.uint(7)); // ERR_TRANSFER_FAILED
+
+			const sponsored = simnet.callReadOnlyFn(
+				"sponsored-sbtc-pool",
+				"is-pool-sponsored",
+				[],
+				deployer
+			);
+			expect(sponsored.result).toBeBool(false);
+		});
+	});
+
+	describe("Sponsor Withdrawal", () => {
+		it("should return the pool in sBTC to the sponsor of an empty pool", async () => {
+			join(deployer);
+			const signature = await generateSignature({
+				action: "sponsor-withdraw",
+				amount: POOL_SIZE,
+				winner: deployer,
+				contract: contractId,
+				nonce: 0,
+			});
+
+			const result = simnet.callPublicFn(
+				"sponsored-sbtc-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				deployer
+			);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual(
+				sbtcTransferEvent(POOL_SIZE, contractId, deployer)
+			);
+			expect(getPoolBalance()).toBeUint(0);
+		});
+	});
+
+	describe("Claim Rewards", () => {
+		beforeEach(() => {
+			join(deployer);
+			join(wallet1);
+			join(wallet2);
+			settlePool("sponsored-sbtc-pool");
+		});
+
+		it("should pay the net reward in sBTC and accrue the fee", async () => {
+			const result = await claimReward(wallet1, 30000000);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events.filter((e) => e.event !== "print_event")).toStrictEqual([
+				sbtcTransferEvent(29400000, contractId, wallet1),
+			]);
+
+			const fees = simnet.callReadOnlyFn(
+				"sponsored-sbtc-pool",
+				"get-accrued-fees",
+				[],
+				deployer
+			);
+			expect(fees.result).toBeUint(600000);
+			expect(getPoolBalance()).toBeUint(POOL_SIZE - 30000000);
+		});
+
+		it("should not pay more than the pool holds", async () => {
+			await claimReward(wallet1, 30000000);
+
+			const result = await claimReward(wallet2, 30000000);
+			expect(result.result).toBeErr(Cl.uint(6)); // ERR_INSUFFICIENT_FUNDS
+		});
+
+		it("should sweep the accrued fees in sBTC", async () => {
+			await claimReward(wallet1, 30000000);
+
+			const result = simnet.callPublicFn(
+				"sponsored-sbtc-pool",
+				"sweep-fees",
+				[],
+				wallet3
+			);
+
+			expect(result.result).toBeOk(Cl.uint(600000));
+			expect(result.events).toContainEqual(
+				sbtcTransferEvent(600000, contractId, FEE_WALLET)
+			);
+			expect(getSbtcBalance(FEE_WALLET)).toBe(600000n);
+		});
+	});
+
+	describe("Cancel Refunds", () => {
+		it("should return the whole pool in sBTC to the sponsor", () => {
+			join(deployer);
+			join(wallet1);
+			const before = getSbtcBalance(deployer);
+			simnet.callPublicFn("sponsored-sbtc-pool", "cancel-pool", [], deployer);
+
+			const result = simnet.callPublicFn(
+				"sponsored-sbtc-pool",
+				"claim-refund",
+				[],
+				deployer
+			);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual(
+				sbtcTransferEvent(POOL_SIZE, contractId, deployer)
+			);
+			expect(getSbtcBalance(deployer)).toBe(before + BigInt(POOL_SIZE));
+
+			const player = simnet.callPublicFn(
+				"sponsored-sbtc-pool",
+				"claim-refund",
+				[],
+				wallet1
+			);
+			expect(player.result).toBeErr(Cl.uint(25)); // ERR_NOTHING_TO_REFUND
+		});
+	});
+});
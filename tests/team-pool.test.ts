@@ -0,0 +1,435 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl, ClarityValue } from "@stacks/transactions";
+import {
+	generateInvalidSignature,
+	generateSignature,
+	generateTeamPayoutSignature,
+	registerTrustedSigner,
+	teamWeightsCV,
+	TeamWeight,
+	SIGNATURE_EXPIRY,
+} from "./helpers/signature-helper";
+import {
+	lockPool,
+	passRefundDeadline,
+	settlePool,
+} from "./helpers/pool-lifecycle";
+import { decodePoolEvents } from "./helpers/pool-events";
+import { kickArgs } from "./helpers/moderation";
+
+const accounts = simnet.getAccounts();
+const deployer = simnet.deployer;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+const wallet4 = accounts.get("wallet_4")!;
+const wallet5 = accounts.get("wallet_5")!;
+
+const contract = `${deployer}.team-pool`;
+
+const ENTRY_FEE = 5000000;
+
+const join = (player: string, team: number) =>
+	simnet.callPublicFn("team-pool", "join", [Cl.uint(team)], player);
+
+const readOnly = (fn: string, args: ClarityValue[] = []) =>
+	simnet.callReadOnlyFn("team-pool", fn, args, deployer).result;
+
+const teamRoster = (team: number) => readOnly("get-team-roster", [Cl.uint(team)]);
+
+const submitTeamPayout = async (
+	team: number,
+	amount: number,
+	weights: TeamWeight[] = [],
+	sender = deployer
+) =>
+	simnet.callPublicFn(
+		"team-pool",
+		"submit-team-payout",
+		[
+			Cl.uint(team),
+			Cl.uint(amount),
+			teamWeightsCV(weights),
+			Cl.uint(SIGNATURE_EXPIRY),
+			Cl.bufferFromHex(
+				await generateTeamPayoutSignature({
+					team,
+					amount,
+					weights,
+					contract,
+				})
+			),
+		],
+		sender
+	);
+
+const claimTeamReward = (player: string) =>
+	simnet.callPublicFn("team-pool", "claim-team-reward", [], player);
+
+describe("Team Pool Contract Tests", () => {
+	beforeEach(async () => {
+		await registerTrustedSigner();
+	});
+
+	describe("Join Team Function", () => {
+		it("should seat the player in the chosen team", () => {
+			join(deployer, 1);
+			const result = join(wallet1, 2);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual({
+				event: "stx_transfer_event",
+				data: {
+					amount: ENTRY_FEE.toString(),
+					sender: wallet1,
+					recipient: contract,
+					memo: "",
+				},
+			});
+			expect(decodePoolEvents(result.events)).toMatchObject([
+				{ event: "join", player: wallet1, amount: BigInt(ENTRY_FEE), team: 2 },
+			]);
+			expect(readOnly("get-player-team", [Cl.standardPrincipal(wallet1)])).toBeSome(
+				Cl.uint(2)
+			);
+			expect(readOnly("get-team-size", [Cl.uint(2)])).toBeUint(1);
+		});
+
+		it("should let only the host open the pool", () => {
+			expect(join(wallet1, 1).result).toBeErr(Cl.uint(15)); // ERR_NOT_JOINABLE
+		});
+
+		it("should reject teams outside the pool's range", () => {
+			join(deployer, 1);
+
+			expect(join(wallet1, 0).result).toBeErr(Cl.uint(32)); // ERR_INVALID_TEAM
+			expect(join(wallet1, 5).result).toBeErr(Cl.uint(32)); // ERR_INVALID_TEAM
+			expect(readOnly("get-max-teams")).toBeUint(4);
+		});
+
+		it("should cap each team at its capacity", () => {
+			join(deployer, 1);
+			join(wallet1, 1);
+			join(wallet2, 1);
+			join(wallet3, 1);
+
+			expect(readOnly("get-team-capacity")).toBeUint(4);
+			expect(join(wallet4, 1).result).toBeErr(Cl.uint(33)); // ERR_TEAM_FULL
+			expect(join(wallet4, 2).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should not seat a player twice", () => {
+			join(deployer, 1);
+			join(wallet1, 1);
+
+			expect(join(wallet1, 2).result).toBeErr(Cl.uint(5)); // ERR_ALREADY_JOINED
+			expect(teamRoster(2)).toBeList([]);
+		});
+	});
+
+	describe("Team Rosters", () => {
+		beforeEach(() => {
+			join(deployer, 1);
+			join(wallet1, 1);
+			join(wallet2, 1);
+			join(wallet3, 2);
+		});
+
+		it("should list each team's members in seat order", () => {
+			expect(teamRoster(1)).toBeList([
+				Cl.standardPrincipal(deployer),
+				Cl.standardPrincipal(wallet1),
+				Cl.standardPrincipal(wallet2),
+			]);
+			expect(teamRoster(2)).toBeList([Cl.standardPrincipal(wallet3)]);
+			expect(teamRoster(3)).toBeList([]);
+			expect(readOnly("get-player-info", [Cl.standardPrincipal(wallet3)])).toBeSome(
+				Cl.tuple({
+					"joined-at": Cl.uint(simnet.blockHeight),
+					"is-sponsor": Cl.bool(false),
+					slot: Cl.uint(3),
+					team: Cl.uint(2),
+					"has-claimed": Cl.bool(false),
+				})
+			);
+		});
+
+		it("should fill a kicked member's seat with the team's last member", () => {
+			simnet.callPublicFn("team-pool", "kick", kickArgs(wallet1), deployer);
+
+			expect(teamRoster(1)).toBeList([
+				Cl.standardPrincipal(deployer),
+				Cl.standardPrincipal(wallet2),
+			]);
+			expect(readOnly("get-team-size", [Cl.uint(1)])).toBeUint(2);
+			expect(readOnly("get-player-team", [Cl.standardPrincipal(wallet1)])).toBeNone();
+			// The freed team seat can be taken again
+			expect(join(wallet4, 1).result).toBeOk(Cl.bool(true));
+			expect(readOnly("get-players", [Cl.uint(0), Cl.uint(20)])).toBeList([
+				Cl.standardPrincipal(deployer),
+				Cl.standardPrincipal(wallet3),
+				Cl.standardPrincipal(wallet2),
+				Cl.standardPrincipal(wallet4),
+			]);
+		});
+
+		it("should free the seat of a member who leaves", async () => {
+			const signature = await generateSignature({
+				action: "leave",
+				amount: ENTRY_FEE,
+				winner: wallet3,
+				contract,
+				nonce: 0,
+			});
+			const result = simnet.callPublicFn(
+				"team-pool",
+				"leave",
+				[Cl.uint(SIGNATURE_EXPIRY), Cl.bufferFromHex(signature)],
+				wallet3
+			);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(teamRoster(2)).toBeList([]);
+			expect(readOnly("get-team-size", [Cl.uint(2)])).toBeUint(0);
+		});
+
+		it("should give members back their entry once the pool is cancelled", () => {
+			simnet.callPublicFn("team-pool", "cancel-pool", [], deployer);
+
+			expect(
+				simnet.callPublicFn("team-pool", "claim-refund", [], wallet1).result
+			).toBeOk(Cl.bool(true));
+			expect(teamRoster(1)).toBeList([
+				Cl.standardPrincipal(deployer),
+				Cl.standardPrincipal(wallet2),
+			]);
+		});
+	});
+
+	describe("Team Payouts", () => {
+		beforeEach(() => {
+			// 25 STX in the pool: team 1 of three, team 2 of two
+			join(deployer, 1);
+			join(wallet1, 1);
+			join(wallet2, 1);
+			join(wallet3, 2);
+			join(wallet4, 2);
+		});
+
+		it("should only pay settled pools", async () => {
+			lockPool("team-pool");
+
+			expect((await submitTeamPayout(1, 9000000)).result).toBeErr(Cl.uint(21)); // ERR_INVALID_POOL_STATUS
+		});
+
+		it("should split a payout evenly without weights", async () => {
+			settlePool("team-pool");
+
+			const result = await submitTeamPayout(2, 10000000, [], wallet5);
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(decodePoolEvents(result.events)).toMatchObject([
+				{ event: "team-payout", player: wallet5, amount: 10000000n, team: 2 },
+			]);
+			expect(readOnly("get-team-payout", [Cl.uint(2)])).toBeSome(
+				Cl.tuple({
+					amount: Cl.uint(10000000),
+					weighted: Cl.bool(false),
+					"total-weight": Cl.uint(2),
+					"claimed-amount": Cl.uint(0),
+					"claimed-weight": Cl.uint(0),
+				})
+			);
+
+			const claim = claimTeamReward(wallet3);
+			expect(claim.result).toBeOk(Cl.bool(true));
+			// 2% fee on the 5 STX share
+			expect(claim.events).toContainEqual({
+				event: "stx_transfer_event",
+				data: {
+					amount: "4900000",
+					sender: contract,
+					recipient: wallet3,
+					memo: "",
+				},
+			});
+			expect(decodePoolEvents(claim.events)).toMatchObject([
+				{ event: "claim", player: wallet3, amount: 5000000n, fee: 100000n, team: 2 },
+			]);
+			expect(readOnly("get-accrued-fees")).toBeUint(100000);
+		});
+
+		it("should split a payout unevenly by signed weights", async () => {
+			settlePool("team-pool");
+			await submitTeamPayout(1, 9000000, [
+				{ player: deployer, weight: 5 },
+				{ player: wallet1, weight: 3 },
+				{ player: wallet2, weight: 1 },
+			]);
+
+			expect(
+				readOnly("get-team-share", [Cl.uint(1), Cl.standardPrincipal(deployer)])
+			).toBeUint(5000000);
+			expect(
+				readOnly("get-team-share", [Cl.uint(1), Cl.standardPrincipal(wallet1)])
+			).toBeUint(3000000);
+			expect(
+				readOnly("get-team-share", [Cl.uint(1), Cl.standardPrincipal(wallet2)])
+			).toBeUint(1000000);
+
+			const claims = [deployer, wallet1, wallet2].map((player) =>
+				decodePoolEvents(claimTeamReward(player).events)[0]
+			);
+			expect(claims).toMatchObject([
+				{ event: "claim", player: deployer, amount: 5000000n, fee: 100000n },
+				{ event: "claim", player: wallet1, amount: 3000000n, fee: 60000n },
+				{ event: "claim", player: wallet2, amount: 1000000n, fee: 20000n },
+			]);
+			expect(readOnly("get-committed-payouts")).toBeUint(0);
+		});
+
+		it("should give the last member of an uneven split the rounding dust", async () => {
+			settlePool("team-pool");
+			await submitTeamPayout(1, 1000000, [
+				{ player: wallet1, weight: 2 },
+				{ player: wallet2, weight: 1 },
+			]);
+
+			// 333333.33 rounds down while a share is still outstanding
+			claimTeamReward(wallet2);
+			expect(
+				readOnly("get-team-share", [Cl.uint(1), Cl.standardPrincipal(wallet1)])
+			).toBeUint(666667);
+			claimTeamReward(wallet1);
+
+			expect(readOnly("get-team-payout", [Cl.uint(1)])).toBeSome(
+				Cl.tuple({
+					amount: Cl.uint(1000000),
+					weighted: Cl.bool(true),
+					"total-weight": Cl.uint(3),
+					"claimed-amount": Cl.uint(1000000),
+					"claimed-weight": Cl.uint(3),
+				})
+			);
+		});
+
+		it("should leave members without a signed weight out", async () => {
+			settlePool("team-pool");
+			await submitTeamPayout(1, 9000000, [{ player: wallet1, weight: 1 }]);
+
+			expect(
+				readOnly("get-member-weight", [Cl.uint(1), Cl.standardPrincipal(wallet2)])
+			).toBeUint(0);
+			expect(claimTeamReward(wallet2).result).toBeErr(Cl.uint(37)); // ERR_NO_TEAM_SHARE
+			expect(claimTeamReward(wallet1).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should reject weights for outsiders, repeats or zero", async () => {
+			settlePool("team-pool");
+
+			for (const weights of [
+				[{ player: wallet3, weight: 1 }],
+				[
+					{ player: wallet1, weight: 1 },
+					{ player: wallet1, weight: 2 },
+				],
+				[{ player: wallet1, weight: 0 }],
+			]) {
+				expect((await submitTeamPayout(1, 9000000, weights)).result).toBeErr(
+					Cl.uint(36) // ERR_INVALID_WEIGHTS
+				);
+			}
+			expect(readOnly("get-team-payout", [Cl.uint(1)])).toBeNone();
+		});
+
+		it("should pay each team once", async () => {
+			settlePool("team-pool");
+			await submitTeamPayout(1, 9000000);
+
+			expect((await submitTeamPayout(1, 9000000)).result).toBeErr(Cl.uint(34)); // ERR_TEAM_PAYOUT_EXISTS
+		});
+
+		it("should not promise more than the pool holds", async () => {
+			settlePool("team-pool");
+			await submitTeamPayout(1, 20000000);
+
+			expect((await submitTeamPayout(2, 5000001)).result).toBeErr(Cl.uint(12)); // ERR_MAXIMUM_REWARD_EXCEEDED
+			expect((await submitTeamPayout(2, 5000000)).result).toBeOk(Cl.bool(true));
+		});
+
+		it("should not pay empty teams", async () => {
+			settlePool("team-pool");
+
+			expect((await submitTeamPayout(3, 1000000)).result).toBeErr(Cl.uint(32)); // ERR_INVALID_TEAM
+		});
+
+		it("should reject payouts signed by an unknown key", async () => {
+			settlePool("team-pool");
+			const result = simnet.callPublicFn(
+				"team-pool",
+				"submit-team-payout",
+				[
+					Cl.uint(1),
+					Cl.uint(9000000),
+					teamWeightsCV([]),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(generateInvalidSignature()),
+				],
+				deployer
+			);
+
+			expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should not let a payout signed for one team pay another", async () => {
+			settlePool("team-pool");
+			const signature = await generateTeamPayoutSignature({
+				team: 1,
+				amount: 9000000,
+				weights: [],
+				contract,
+			});
+			const result = simnet.callPublicFn(
+				"team-pool",
+				"submit-team-payout",
+				[
+					Cl.uint(2),
+					Cl.uint(9000000),
+					teamWeightsCV([]),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(signature),
+				],
+				deployer
+			);
+
+			expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should let each member claim once, and only from a paid team", async () => {
+			settlePool("team-pool");
+			await submitTeamPayout(1, 9000000);
+
+			expect(claimTeamReward(wallet1).result).toBeOk(Cl.bool(true));
+			expect(claimTeamReward(wallet1).result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
+			expect(claimTeamReward(wallet3).result).toBeErr(Cl.uint(35)); // ERR_NO_TEAM_PAYOUT
+			expect(claimTeamReward(wallet5).result).toBeErr(Cl.uint(14)); // ERR_NOT_JOINED
+		});
+
+		it("should hold claims while paused", async () => {
+			settlePool("team-pool");
+			await submitTeamPayout(1, 9000000);
+			simnet.callPublicFn("team-pool", "pause", [], deployer);
+
+			expect(claimTeamReward(wallet1).result).toBeErr(Cl.uint(28)); // ERR_PAUSED
+		});
+
+		it("should refund every team once the deadline passes unsettled", () => {
+			lockPool("team-pool");
+			passRefundDeadline("team-pool");
+
+			expect(
+				simnet.callPublicFn("team-pool", "claim-refund", [], wallet4).result
+			).toBeOk(Cl.bool(true));
+			expect(teamRoster(2)).toBeList([Cl.standardPrincipal(wallet3)]);
+		});
+	});
+});
@@ -0,0 +1,418 @@
+import { describe, expect, it, beforeEach } from "vitest";
+import { Cl, ClarityValue } from "@stacks/transactions";
+import {
+	generateAdvanceSignature,
+	generateInvalidSignature,
+	registerTrustedSigner,
+	SIGNATURE_EXPIRY,
+} from "./helpers/signature-helper";
+import { passRefundDeadline } from "./helpers/pool-lifecycle";
+import { decodePoolEvents } from "./helpers/pool-events";
+import {
+	BracketSimulator,
+	getTournamentPlayers,
+	PickWinner,
+} from "./helpers/bracket";
+
+const deployer = simnet.deployer;
+const contract = `${deployer}.tournament`;
+
+const BUY_IN = 5000000;
+
+const TournamentStatus = {
+	Registration: 1,
+	Running: 2,
+	Finished: 3,
+	Cancelled: 4,
+} as const;
+
+const Place = { None: 0, First: 1, Second: 2, Third: 3 } as const;
+
+const call = (fn: string, args: ClarityValue[], sender: string) =>
+	simnet.callPublicFn("tournament", fn, args, sender);
+
+const readOnly = (fn: string, args: ClarityValue[] = []) =>
+	simnet.callReadOnlyFn("tournament", fn, args, deployer).result;
+
+const register = (player: string) => call("register", [], player);
+
+const advance = async (
+	round: number,
+	matchId: number,
+	winner: string,
+	signedWinner = winner
+) =>
+	call(
+		"advance",
+		[
+			Cl.uint(round),
+			Cl.uint(matchId),
+			Cl.standardPrincipal(winner),
+			Cl.uint(SIGNATURE_EXPIRY),
+			Cl.bufferFromHex(
+				await generateAdvanceSignature({
+					round,
+					matchId,
+					winner: signedWinner,
+					contract,
+				})
+			),
+		],
+		deployer
+	);
+
+// The second player of every match wins, so the last seed takes the title
+const bottomSeedWins: PickWinner = (_, second) => second;
+
+describe("Tournament Contract Tests", () => {
+	let players: string[];
+
+	beforeEach(async () => {
+		await registerTrustedSigner();
+		players = getTournamentPlayers(8);
+	});
+
+	describe("Registration", () => {
+		it("should take the buy-in and seed players in registration order", () => {
+			register(players[0]);
+			const result = register(players[1]);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(result.events).toContainEqual({
+				event: "stx_transfer_event",
+				data: {
+					amount: BUY_IN.toString(),
+					sender: players[1],
+					recipient: contract,
+					memo: "",
+				},
+			});
+			expect(decodePoolEvents(result.events)).toMatchObject([
+				{ event: "register", player: players[1], amount: BigInt(BUY_IN), seed: 1 },
+			]);
+			expect(readOnly("get-round-entrants", [Cl.uint(1)])).toBeList([
+				Cl.standardPrincipal(players[0]),
+				Cl.standardPrincipal(players[1]),
+			]);
+		});
+
+		it("should not register a player twice", () => {
+			register(players[0]);
+
+			expect(register(players[0]).result).toBeErr(Cl.uint(5)); // ERR_ALREADY_JOINED
+		});
+
+		it("should keep out players banned on the moderation list", () => {
+			simnet.callPublicFn(
+				"moderation-list",
+				"ban",
+				[Cl.standardPrincipal(players[0]), Cl.uint(1)],
+				deployer
+			);
+
+			expect(register(players[0]).result).toBeErr(Cl.uint(29)); // ERR_BANNED
+		});
+
+		it("should stop at the largest bracket", () => {
+			const field = getTournamentPlayers(17);
+			field.slice(0, 16).forEach(register);
+
+			expect(register(field[16]).result).toBeErr(Cl.uint(22)); // ERR_TOURNAMENT_FULL
+		});
+	});
+
+	describe("Start Tournament Function", () => {
+		it("should start a full bracket", () => {
+			players.forEach(register);
+			const result = call("start-tournament", [], deployer);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(readOnly("get-tournament-status")).toBeUint(TournamentStatus.Running);
+			expect(readOnly("get-bracket-size")).toBeUint(8);
+			expect(readOnly("get-total-rounds")).toBeUint(3);
+			expect(readOnly("get-current-round")).toBeUint(1);
+			expect(readOnly("get-matches-left")).toBeUint(4);
+			expect(readOnly("get-pot")).toBeUint(8 * BUY_IN);
+			expect(register(getTournamentPlayers(9)[8]).result).toBeErr(Cl.uint(21)); // ERR_INVALID_STATUS
+		});
+
+		it("should only start brackets of 4, 8 or 16 players", () => {
+			players.slice(0, 6).forEach(register);
+
+			expect(call("start-tournament", [], deployer).result).toBeErr(Cl.uint(30)); // ERR_INVALID_BRACKET
+		});
+
+		it("should only let the host start", () => {
+			players.forEach(register);
+
+			expect(call("start-tournament", [], players[0]).result).toBeErr(Cl.uint(16)); // ERR_UNAUTHORIZED
+		});
+	});
+
+	describe("Advance Function", () => {
+		beforeEach(() => {
+			players.forEach(register);
+			call("start-tournament", [], deployer);
+		});
+
+		it("should move the signed winner to the next round", async () => {
+			const result = await advance(1, 1, players[3]);
+
+			expect(result.result).toBeOk(Cl.bool(true));
+			expect(decodePoolEvents(result.events)).toMatchObject([
+				{
+					event: "advance",
+					player: players[3],
+					amount: 1n,
+					matchId: 1,
+					loser: players[2],
+				},
+			]);
+			expect(readOnly("get-match-result", [Cl.uint(1), Cl.uint(1)])).toBeSome(
+				Cl.tuple({
+					winner: Cl.standardPrincipal(players[3]),
+					loser: Cl.standardPrincipal(players[2]),
+				})
+			);
+			expect(
+				readOnly("get-elimination-round", [Cl.standardPrincipal(players[2])])
+			).toBeSome(Cl.uint(1));
+			expect(readOnly("get-round-entrants", [Cl.uint(2)])).toBeList([
+				Cl.standardPrincipal(players[3]),
+			]);
+			expect(readOnly("get-matches-left")).toBeUint(3);
+		});
+
+		it("should open the next round once every match is decided", async () => {
+			for (let matchId = 0; matchId < 4; matchId++) {
+				await advance(1, matchId, players[matchId * 2]);
+			}
+
+			expect(readOnly("get-current-round")).toBeUint(2);
+			expect(readOnly("get-matches-left")).toBeUint(2);
+			expect((await advance(1, 0, players[0])).result).toBeErr(Cl.uint(31)); // ERR_INVALID_ROUND
+		});
+
+		it("should only accept results of the current round", async () => {
+			expect((await advance(2, 0, players[0])).result).toBeErr(Cl.uint(31)); // ERR_INVALID_ROUND
+			expect((await advance(1, 4, players[0])).result).toBeErr(Cl.uint(32)); // ERR_INVALID_MATCH
+		});
+
+		it("should only advance one of the match's players", async () => {
+			expect((await advance(1, 0, players[2])).result).toBeErr(Cl.uint(34)); // ERR_INVALID_WINNER
+		});
+
+		it("should decide each match once", async () => {
+			await advance(1, 0, players[0]);
+
+			expect((await advance(1, 0, players[1])).result).toBeErr(Cl.uint(33)); // ERR_MATCH_DECIDED
+		});
+
+		it("should only accept winners picked by the signer", async () => {
+			expect((await advance(1, 0, players[1], players[0])).result).toBeErr(
+				Cl.uint(10) // ERR_INVALID_SIGNATURE
+			);
+
+			const result = call(
+				"advance",
+				[
+					Cl.uint(1),
+					Cl.uint(0),
+					Cl.standardPrincipal(players[0]),
+					Cl.uint(SIGNATURE_EXPIRY),
+					Cl.bufferFromHex(generateInvalidSignature()),
+				],
+				players[0]
+			);
+			expect(result.result).toBeErr(Cl.uint(10)); // ERR_INVALID_SIGNATURE
+		});
+
+		it("should hold results while paused", async () => {
+			call("pause", [], deployer);
+
+			expect((await advance(1, 0, players[0])).result).toBeErr(Cl.uint(28)); // ERR_PAUSED
+		});
+	});
+
+	describe("Placements and Prizes", () => {
+		it("should rank and pay the top four of an 8-player tournament", async () => {
+			const simulator = new BracketSimulator(players);
+			const result = await simulator.play();
+
+			// The top seed of every match wins
+			expect(result.champion).toBe(players[0]);
+			expect(result.runnerUp).toBe(players[4]);
+			expect(result.semiFinalists).toStrictEqual([players[2], players[6]]);
+			expect(readOnly("get-tournament-status")).toBeUint(TournamentStatus.Finished);
+			expect(readOnly("get-champion")).toBeSome(Cl.standardPrincipal(players[0]));
+
+			const placements = players.map((player) =>
+				readOnly("get-placement", [Cl.standardPrincipal(player)])
+			);
+			expect(placements).toStrictEqual(
+				[
+					Place.First,
+					Place.None,
+					Place.Third,
+					Place.None,
+					Place.Second,
+					Place.None,
+					Place.Third,
+					Place.None,
+				].map((place) => Cl.uint(place))
+			);
+
+			// 40 STX pot: 25% to the runner-up, 7.5% to each semi-finalist
+			const prizes = simulator.claimPrizes(result);
+			expect(prizes).toStrictEqual(
+				new Map([
+					[players[0], 24000000n],
+					[players[4], 10000000n],
+					[players[2], 3000000n],
+					[players[6], 3000000n],
+				])
+			);
+			// 2% fee on every prize, and the rest of the pot paid out
+			expect(readOnly("get-accrued-fees")).toBeUint(800000);
+			expect(simnet.getAssetsMap().get("STX")?.get(contract)).toBe(800000n);
+		});
+
+		it("should print the prize with the fee and placement", async () => {
+			const result = await new BracketSimulator(players).play();
+
+			const claim = call("claim-prize", [], result.runnerUp);
+			expect(claim.result).toBeOk(Cl.bool(true));
+			expect(decodePoolEvents(claim.events)).toMatchObject([
+				{
+					event: "prize",
+					player: result.runnerUp,
+					amount: 10000000n,
+					fee: 200000n,
+					place: Place.Second,
+				},
+			]);
+			expect(claim.events).toContainEqual(
+				expect.objectContaining({
+					data: expect.objectContaining({
+						amount: "9800000",
+						recipient: result.runnerUp,
+					}),
+				})
+			);
+		});
+
+		it("should pay each prize once and only to placed players", async () => {
+			const result = await new BracketSimulator(players).play();
+			call("claim-prize", [], result.champion);
+
+			expect(call("claim-prize", [], result.champion).result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
+			expect(call("claim-prize", [], players[1]).result).toBeErr(Cl.uint(35)); // ERR_NO_PRIZE
+		});
+
+		it("should not pay prizes before the final", async () => {
+			players.forEach(register);
+			call("start-tournament", [], deployer);
+
+			expect(call("claim-prize", [], players[0]).result).toBeErr(Cl.uint(21)); // ERR_INVALID_STATUS
+			expect(readOnly("get-placement", [Cl.standardPrincipal(players[0])])).toBeUint(
+				Place.None
+			);
+		});
+	});
+
+	describe("Full Tournaments", () => {
+		it("should run an 8-player bracket round by round", async () => {
+			// The later registered player wins every odd match, the earlier one
+			// every even match
+			const simulator = new BracketSimulator(players, {
+				pickWinner: (first, second, _, matchId) =>
+					matchId % 2 === 0 ? first : second,
+			});
+			const result = await simulator.play();
+
+			expect(result.rounds.map((round) => round.length)).toStrictEqual([4, 2, 1]);
+			for (const round of result.rounds) {
+				for (const match of round) {
+					expect(
+						readOnly("get-match-result", [Cl.uint(match.round), Cl.uint(match.matchId)])
+					).toBeSome(
+						Cl.tuple({
+							winner: Cl.standardPrincipal(match.winner),
+							loser: Cl.standardPrincipal(match.loser),
+						})
+					);
+				}
+			}
+			expect(simulator.getRoundEntrants(2)).toStrictEqual(
+				result.rounds[0].map((match) => match.winner)
+			);
+			expect(readOnly("get-champion")).toBeSome(Cl.standardPrincipal(result.champion));
+		});
+
+		it("should run a 16-player bracket to the final", async () => {
+			const field = getTournamentPlayers(16);
+			const simulator = new BracketSimulator(field, { pickWinner: bottomSeedWins });
+			const result = await simulator.play();
+
+			expect(readOnly("get-total-rounds")).toBeUint(4);
+			expect(result.champion).toBe(field[15]);
+			expect(result.runnerUp).toBe(field[7]);
+			expect(result.semiFinalists).toStrictEqual([field[3], field[11]]);
+			expect(
+				readOnly("get-elimination-round", [Cl.standardPrincipal(field[7])])
+			).toBeSome(Cl.uint(4));
+
+			const balances = () =>
+				new Map(field.map((player) => [player, simnet.getAssetsMap().get("STX")!.get(player)!]));
+			const before = balances();
+			const prizes = simulator.claimPrizes(result);
+			const after = balances();
+
+			// 80 STX pot, each prize less its 2% fee
+			expect(prizes.get(field[15])).toBe(48000000n);
+			expect(prizes.get(field[7])).toBe(20000000n);
+			expect(prizes.get(field[3])).toBe(6000000n);
+			expect(prizes.get(field[11])).toBe(6000000n);
+			for (const [player, prize] of prizes) {
+				expect(after.get(player)! - before.get(player)!).toBe((prize * 98n) / 100n);
+			}
+
+			expect(call("sweep-fees", [], field[0]).result).toBeOk(Cl.uint(1600000));
+			expect(simnet.getAssetsMap().get("STX")?.get(contract)).toBe(0n);
+		});
+
+		it("should run a 4-player bracket", async () => {
+			const result = await new BracketSimulator(players.slice(0, 4)).play();
+
+			expect(result.rounds.map((round) => round.length)).toStrictEqual([2, 1]);
+			expect(result.semiFinalists).toStrictEqual([players[1], players[3]]);
+		});
+	});
+
+	describe("Refunds", () => {
+		beforeEach(() => {
+			players.forEach(register);
+			call("start-tournament", [], deployer);
+		});
+
+		it("should give every buy-in back once cancelled", () => {
+			expect(call("cancel-tournament", [], deployer).result).toBeOk(Cl.bool(true));
+
+			expect(call("claim-refund", [], players[3]).result).toBeOk(Cl.bool(true));
+			expect(call("claim-refund", [], players[3]).result).toBeErr(Cl.uint(9)); // ERR_REWARD_ALREADY_CLAIMED
+			expect(call("claim-refund", [], deployer).result).toBeErr(Cl.uint(14)); // ERR_NOT_JOINED
+		});
+
+		it("should only let the host cancel before the final", async () => {
+			expect(call("cancel-tournament", [], players[0]).result).toBeErr(Cl.uint(16)); // ERR_UNAUTHORIZED
+			expect(call("claim-refund", [], players[0]).result).toBeErr(Cl.uint(21)); // ERR_INVALID_STATUS
+		});
+
+		it("should refund an unfinished tournament past its deadline", async () => {
+			passRefundDeadline("tournament");
+
+			expect((await advance(1, 0, players[0])).result).toBeErr(Cl.uint(24)); // ERR_TOURNAMENT_EXPIRED
+			expect(call("claim-refund", [], players[0]).result).toBeOk(Cl.bool(true));
+		});
+	});
+});